@@ -0,0 +1,109 @@
+// public/sw.js
+// Serves the app shell when there is no connection. Document data itself is
+// kept in IndexedDB by the app (src/services/offlineStore.ts); API requests
+// are never cached here.
+
+const CACHE_NAME = "building-codes-shell-v1";
+const PRECACHE_URLS = ["/", "/bookmarks"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE_NAME)
+      .then((cache) => cache.addAll(PRECACHE_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key !== CACHE_NAME)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+// Cache a page together with the build assets it references, so a document
+// made available offline opens even if it was never visited online
+const cachePage = async (url) => {
+  const cache = await caches.open(CACHE_NAME);
+  const response = await fetch(url);
+  if (!response.ok) return;
+  await cache.put(url, response.clone());
+
+  const html = await response.text();
+  const assets = Array.from(
+    new Set(html.match(/\/_next\/static\/[^"'\s)]+/g) || [])
+  );
+  await Promise.all(
+    assets.map((asset) =>
+      cache.match(asset).then((cached) => cached || cache.add(asset))
+    )
+  );
+};
+
+self.addEventListener("message", (event) => {
+  if (event.data && event.data.type === "cache-pages") {
+    event.waitUntil(
+      Promise.all(
+        event.data.urls.map((url) =>
+          cachePage(url).catch((error) =>
+            console.error("Failed to cache page for offline use:", url, error)
+          )
+        )
+      )
+    );
+  }
+});
+
+const networkFirst = async (request, fallbackUrls = []) => {
+  const cache = await caches.open(CACHE_NAME);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request, { ignoreSearch: true });
+    if (cached) return cached;
+    for (const url of fallbackUrls) {
+      const fallback = await cache.match(url);
+      if (fallback) return fallback;
+    }
+    throw error;
+  }
+};
+
+const cacheFirst = async (request) => {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) cache.put(request, response.clone());
+  return response;
+};
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== "GET" || url.origin !== self.location.origin) return;
+
+  if (request.mode === "navigate") {
+    // Deep links fall back to the document page, anything else to the library
+    const documentMatch = url.pathname.match(/^\/document\/[^/]+/);
+    event.respondWith(
+      networkFirst(request, [documentMatch ? documentMatch[0] : "/", "/"])
+    );
+  } else if (url.pathname.startsWith("/_next/static/")) {
+    // Build assets are content-hashed and never change
+    event.respondWith(cacheFirst(request));
+  } else if (url.pathname.startsWith("/_next/data/")) {
+    event.respondWith(networkFirst(request));
+  }
+});
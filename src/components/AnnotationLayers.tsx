@@ -0,0 +1,232 @@
+// src/components/AnnotationLayers.tsx
+import React, { useRef } from "react";
+import {
+  AlertTriangle,
+  Bookmark as BookmarkIcon,
+  Download,
+  Layers,
+  Trash2,
+  Upload,
+} from "lucide-react";
+import { Annotation } from "@/types/annotation";
+import { Bookmark } from "@/services/bookmarkService";
+import { AnnotationLayer } from "@/services/layerService";
+import { HIGHLIGHT_CLASSES } from "@/components/AnnotationToolbar";
+
+export interface LayerAnnotationView {
+  annotation: Annotation;
+  resolvedContentId: number | null;
+  changed: boolean;
+}
+
+export interface LayerBookmarkView {
+  bookmark: Bookmark;
+  resolvedContentId: number | null;
+}
+
+// A layer with the items that belong to the open document
+export interface LayerView {
+  layer: AnnotationLayer;
+  annotations: LayerAnnotationView[];
+  bookmarks: LayerBookmarkView[];
+}
+
+interface AnnotationLayersProps {
+  layers: LayerView[];
+  error: string | null;
+  onImport: (file: File) => void;
+  onExport: () => void;
+  onToggle: (id: string, visible: boolean) => void;
+  onRemove: (id: string) => void;
+  onNavigate: (id: number) => void;
+}
+
+const conflictCount = (view: LayerView) =>
+  view.annotations.filter((item) => item.changed).length +
+  view.bookmarks.filter((item) => item.resolvedContentId === null).length;
+
+// Export of the user's own notes and the imported layers of other people
+const AnnotationLayers: React.FC<AnnotationLayersProps> = ({
+  layers,
+  error,
+  onImport,
+  onExport,
+  onToggle,
+  onRemove,
+  onNavigate,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="border-t border-gray-200 pt-3 mt-3">
+      <div className="flex items-center justify-between px-1 mb-2">
+        <h3 className="text-xs font-bold text-gray-600 uppercase tracking-wider flex items-center gap-2">
+          <Layers size={14} />
+          Shared layers
+        </h3>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={onExport}
+            className="flex items-center gap-1 px-2 py-1 text-xs text-gray-700 rounded hover:bg-gray-100"
+            title="Export your notes and bookmarks for this document"
+          >
+            <Download size={12} />
+            Export
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center gap-1 px-2 py-1 text-xs text-gray-700 rounded hover:bg-gray-100"
+            title="Import someone else's notes as a layer"
+          >
+            <Upload size={12} />
+            Import
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImport(file);
+              e.target.value = "";
+            }}
+          />
+        </div>
+      </div>
+
+      {error && (
+        <p className="mx-1 mb-2 flex items-center gap-1 text-xs text-red-600">
+          <AlertTriangle size={12} />
+          {error}
+        </p>
+      )}
+
+      {layers.length === 0 && (
+        <p className="text-xs text-gray-500 px-1">
+          Imported files appear here as layers you can show or hide.
+        </p>
+      )}
+
+      <div className="space-y-2">
+        {layers.map((view) => {
+          const conflicts = conflictCount(view);
+
+          return (
+            <div
+              key={view.layer.id}
+              className="rounded-lg border border-gray-200 p-2 text-sm"
+            >
+              <div className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={view.layer.visible}
+                  onChange={(e) => onToggle(view.layer.id, e.target.checked)}
+                  aria-label={`Show layer ${view.layer.name}`}
+                />
+                <span className="font-medium text-gray-800 truncate flex-1">
+                  {view.layer.name}
+                </span>
+                {conflicts > 0 && (
+                  <span
+                    className="flex items-center gap-1 text-xs text-amber-700"
+                    title="Items that no longer match this edition"
+                  >
+                    <AlertTriangle size={12} />
+                    {conflicts}
+                  </span>
+                )}
+                <button
+                  onClick={() => onRemove(view.layer.id)}
+                  className="text-gray-400 hover:text-red-600 transition-colors"
+                  aria-label={`Remove layer ${view.layer.name}`}
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+              <p className="text-xs text-gray-500 ml-5">
+                {view.annotations.length} notes, {view.bookmarks.length}{" "}
+                bookmarks in this document
+              </p>
+
+              {view.layer.visible && (
+                <ul className="mt-2 space-y-1">
+                  {view.annotations.map(
+                    ({ annotation, resolvedContentId, changed }) => (
+                      <li
+                        key={annotation.id}
+                        className={`rounded p-1 text-xs ${
+                          resolvedContentId !== null
+                            ? "cursor-pointer hover:bg-gray-50"
+                            : ""
+                        }`}
+                        onClick={() =>
+                          resolvedContentId !== null &&
+                          onNavigate(resolvedContentId)
+                        }
+                      >
+                        <span
+                          className={`${
+                            HIGHLIGHT_CLASSES[annotation.color]
+                          } rounded px-0.5 text-gray-800`}
+                        >
+                          {annotation.anchor.quote}
+                        </span>
+                        {annotation.note && (
+                          <span className="block text-gray-600 mt-0.5">
+                            {annotation.note}
+                          </span>
+                        )}
+                        {changed && (
+                          <span className="flex items-center gap-1 text-amber-700 mt-0.5">
+                            <AlertTriangle size={10} />
+                            {resolvedContentId === null
+                              ? "Text no longer found in this edition"
+                              : "Text has changed since this note was made"}
+                          </span>
+                        )}
+                      </li>
+                    )
+                  )}
+                  {view.bookmarks.map(({ bookmark, resolvedContentId }) => (
+                    <li
+                      key={bookmark.key}
+                      className={`rounded p-1 text-xs flex items-start gap-1 ${
+                        resolvedContentId !== null
+                          ? "cursor-pointer hover:bg-gray-50"
+                          : ""
+                      }`}
+                      onClick={() =>
+                        resolvedContentId !== null &&
+                        onNavigate(resolvedContentId)
+                      }
+                    >
+                      <BookmarkIcon
+                        size={12}
+                        className="text-blue-600 flex-shrink-0 mt-0.5"
+                      />
+                      <span className="min-w-0">
+                        <span className="font-mono text-gray-500 mr-1">
+                          {bookmark.referenceCode}
+                        </span>
+                        <span className="text-gray-800">{bookmark.title}</span>
+                        {resolvedContentId === null && (
+                          <span className="flex items-center gap-1 text-amber-700 mt-0.5">
+                            <AlertTriangle size={10} />
+                            Provision not found in this edition
+                          </span>
+                        )}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default AnnotationLayers;
@@ -0,0 +1,52 @@
+// src/components/AnnotationToolbar.tsx
+import React from "react";
+import { Highlighter, StickyNote } from "lucide-react";
+import { HighlightColor } from "@/types/annotation";
+
+export const HIGHLIGHT_CLASSES: Record<HighlightColor, string> = {
+  yellow: "bg-yellow-200",
+  green: "bg-green-200",
+  blue: "bg-sky-200",
+  pink: "bg-pink-200",
+};
+
+const COLORS: HighlightColor[] = ["yellow", "green", "blue", "pink"];
+
+interface AnnotationToolbarProps {
+  // Viewport position just above the selection
+  position: { top: number; left: number };
+  onHighlight: (color: HighlightColor, withNote: boolean) => void;
+}
+
+// Floating toolbar shown over a text selection in the viewer
+const AnnotationToolbar: React.FC<AnnotationToolbarProps> = ({
+  position,
+  onHighlight,
+}) => (
+  <div
+    className="fixed z-50 flex items-center gap-1 rounded-lg border border-gray-200 bg-white px-2 py-1 shadow-lg -translate-x-1/2 -translate-y-full"
+    style={{ top: position.top - 8, left: position.left }}
+    // Keep the selection alive while clicking the toolbar
+    onMouseDown={(e) => e.preventDefault()}
+  >
+    <Highlighter size={14} className="text-gray-400 mr-1" />
+    {COLORS.map((color) => (
+      <button
+        key={color}
+        onClick={() => onHighlight(color, false)}
+        className={`h-5 w-5 rounded-full border border-gray-300 ${HIGHLIGHT_CLASSES[color]}`}
+        title={`Highlight ${color}`}
+        aria-label={`Highlight ${color}`}
+      />
+    ))}
+    <button
+      onClick={() => onHighlight("yellow", true)}
+      className="ml-1 flex items-center gap-1 rounded px-2 py-0.5 text-xs font-medium text-gray-700 hover:bg-gray-100"
+    >
+      <StickyNote size={12} />
+      Note
+    </button>
+  </div>
+);
+
+export default AnnotationToolbar;
@@ -0,0 +1,183 @@
+// src/components/AnnotationsPanel.tsx
+import React, { useEffect, useState } from "react";
+import { AlertTriangle, StickyNote, Trash2, X } from "lucide-react";
+import { Annotation } from "@/types/annotation";
+import { HIGHLIGHT_CLASSES } from "@/components/AnnotationToolbar";
+
+export interface PanelAnnotation {
+  annotation: Annotation;
+  // Content id the highlight currently resolves to, null when orphaned
+  resolvedContentId: number | null;
+}
+
+interface AnnotationsPanelProps {
+  items: PanelAnnotation[];
+  editingId: string | null;
+  onEdit: (id: string | null) => void;
+  onSave: (annotation: Annotation) => void;
+  onDelete: (id: string) => void;
+  onNavigate: (id: number) => void;
+  onClose: () => void;
+  // Extra sections below the user's own notes
+  children?: React.ReactNode;
+}
+
+const NoteEditor: React.FC<{
+  annotation: Annotation;
+  onSave: (annotation: Annotation) => void;
+  onCancel: () => void;
+}> = ({ annotation, onSave, onCancel }) => {
+  const [note, setNote] = useState(annotation.note);
+
+  useEffect(() => {
+    setNote(annotation.note);
+  }, [annotation.id, annotation.note]);
+
+  return (
+    <div className="mt-2" onClick={(e) => e.stopPropagation()}>
+      <textarea
+        autoFocus
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        rows={3}
+        placeholder="Add a note..."
+        className="w-full rounded-lg border border-gray-300 p-2 text-sm text-black"
+      />
+      <div className="mt-1 flex justify-end gap-2">
+        <button
+          onClick={onCancel}
+          className="px-3 py-1 text-xs text-gray-600 hover:text-gray-900"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() =>
+            onSave({
+              ...annotation,
+              note,
+              updatedAt: new Date().toISOString(),
+            })
+          }
+          className="px-3 py-1 text-xs text-white bg-blue-600 rounded hover:bg-blue-700"
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const AnnotationsPanel: React.FC<AnnotationsPanelProps> = ({
+  items,
+  editingId,
+  onEdit,
+  onSave,
+  onDelete,
+  onNavigate,
+  onClose,
+  children,
+}) => {
+  return (
+    <aside className="w-1/4 bg-white rounded-2xl shadow-sm border border-gray-200 overflow-hidden flex-shrink-0 flex flex-col">
+      <div className="bg-gradient-to-r from-yellow-50 to-white px-5 py-4 border-b border-gray-200 flex items-center justify-between">
+        <h2 className="text-sm font-bold text-gray-700 uppercase tracking-wider flex items-center gap-2">
+          <StickyNote size={16} />
+          Notes
+          <span className="bg-yellow-500 text-white text-xs px-2 py-1 rounded-full ml-1">
+            {items.length}
+          </span>
+        </h2>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-gray-600 transition-colors"
+          aria-label="Close notes"
+        >
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="overflow-y-auto flex-1 p-3 space-y-3">
+        {items.length === 0 && (
+          <p className="text-sm text-gray-500 p-3">
+            Select text in a provision to highlight it or add a note.
+          </p>
+        )}
+        {items.map(({ annotation, resolvedContentId }) => (
+          <div
+            key={annotation.id}
+            className={`rounded-lg border p-3 text-sm ${
+              editingId === annotation.id
+                ? "border-blue-300"
+                : "border-gray-200"
+            } ${resolvedContentId !== null ? "cursor-pointer" : ""}`}
+            onClick={() =>
+              resolvedContentId !== null && onNavigate(resolvedContentId)
+            }
+          >
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                {annotation.anchor.referenceCode && (
+                  <span className="font-mono text-xs text-gray-500 mr-2">
+                    {annotation.anchor.referenceCode}
+                  </span>
+                )}
+                <span
+                  className={`${
+                    HIGHLIGHT_CLASSES[annotation.color]
+                  } text-gray-800 rounded px-0.5`}
+                >
+                  {annotation.anchor.quote}
+                </span>
+              </div>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onDelete(annotation.id);
+                }}
+                className="text-gray-400 hover:text-red-600 transition-colors flex-shrink-0"
+                aria-label="Delete annotation"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+
+            {resolvedContentId === null && (
+              <p className="mt-2 flex items-center gap-1 text-xs text-amber-700">
+                <AlertTriangle size={12} />
+                The highlighted text is no longer in this document.
+              </p>
+            )}
+
+            {editingId === annotation.id ? (
+              <NoteEditor
+                annotation={annotation}
+                onSave={onSave}
+                onCancel={() => onEdit(null)}
+              />
+            ) : (
+              <div className="mt-2 flex items-start justify-between gap-2">
+                <p className="text-gray-700 whitespace-pre-wrap">
+                  {annotation.note || (
+                    <span className="text-gray-400 italic">No note</span>
+                  )}
+                </p>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onEdit(annotation.id);
+                  }}
+                  className="text-xs text-blue-600 hover:text-blue-800 flex-shrink-0"
+                >
+                  Edit
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+        {children}
+      </div>
+    </aside>
+  );
+};
+
+export default AnnotationsPanel;
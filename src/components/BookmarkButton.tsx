@@ -0,0 +1,32 @@
+// src/components/BookmarkButton.tsx
+import React from "react";
+import { Bookmark, BookmarkCheck } from "lucide-react";
+
+interface BookmarkButtonProps {
+  active: boolean;
+  onToggle: () => void;
+}
+
+const BookmarkButton: React.FC<BookmarkButtonProps> = ({
+  active,
+  onToggle,
+}) => (
+  <button
+    onClick={(e) => {
+      e.stopPropagation();
+      onToggle();
+    }}
+    className={`flex-shrink-0 p-1 rounded transition-colors ${
+      active
+        ? "text-amber-500 hover:text-amber-600"
+        : "text-gray-300 hover:text-gray-600"
+    }`}
+    title={active ? "Remove bookmark" : "Bookmark this provision"}
+    aria-label={active ? "Remove bookmark" : "Bookmark this provision"}
+    aria-pressed={active}
+  >
+    {active ? <BookmarkCheck size={16} /> : <Bookmark size={16} />}
+  </button>
+);
+
+export default BookmarkButton;
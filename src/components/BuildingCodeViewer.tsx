@@ -8,27 +8,110 @@ import {
   AlertCircle,
   RefreshCw,
   X,
-  ExternalLink,
+  BookOpen,
+  FileText,
+  StickyNote,
+  Printer,
+  WifiOff,
 } from "lucide-react";
-import { HierarchyNode } from "@/types/buildingCode";
+import {
+  ContentSearchResponse,
+  ContentSearchResult,
+  HierarchyNode,
+  Reference,
+} from "@/types/buildingCode";
 import {
   buildingCodeService,
   buildHierarchy,
 } from "@/services/buildingCodeService";
+import { buildDefinitionIndex, splitByDefinitions } from "@/utils/definitions";
+import DefinitionTerm from "@/components/DefinitionTerm";
+import GlossaryPanel from "@/components/GlossaryPanel";
+import { buildBacklinkIndex } from "@/utils/backlinks";
+import ReferencedBy from "@/components/ReferencedBy";
+import {
+  formatNodeLabel,
+  getAncestors,
+  indexHierarchy,
+  mergeBranch,
+} from "@/utils/hierarchy";
+import {
+  ReferenceCodeMatch,
+  buildProvisionPath,
+  buildReferenceCodeIndex,
+  resolveReferenceCode,
+  scopedReferenceCode,
+  suggestReferenceCodes,
+} from "@/utils/referenceCodes";
+import { ProvisionPreview, resolveReferencePreview } from "@/utils/previews";
+import ReferenceLink from "@/components/ReferenceLink";
+import PinnedPreviewsPanel from "@/components/PinnedPreviewsPanel";
 import { useSearchParams } from "next/navigation";
-
-interface Reference {
-  id: number;
-  reference_text: string;
-  reference_type: string;
-  target_content_id: number;
-  target_reference_code: string;
-  hyperlink_target: string;
-  page_number: number;
-  font_family: string;
-  bbox: number[];
-  reference_position: number;
-}
+import { useRouter } from "next/router";
+import {
+  NavigationHistory,
+  useNavigationHistory,
+} from "@/hooks/useNavigationHistory";
+import NavigationHistoryControls from "@/components/NavigationHistoryControls";
+import ProvisionJumpBox from "@/components/ProvisionJumpBox";
+import { useVirtualRows } from "@/hooks/useVirtualRows";
+import { useBookmarks } from "@/hooks/useBookmarks";
+import { bookmarkKey } from "@/services/bookmarkService";
+import { libraryService } from "@/services/libraryService";
+import BookmarkButton from "@/components/BookmarkButton";
+import PdfPagePane from "@/components/PdfPagePane";
+import { useAnnotations } from "@/hooks/useAnnotations";
+import { Annotation, HighlightColor, TextAnchor } from "@/types/annotation";
+import {
+  createAnchor,
+  getAnnotatableText,
+  getTextOffset,
+  resolveAnnotation,
+} from "@/utils/annotationAnchors";
+import { useAnnotationLayers } from "@/hooks/useAnnotationLayers";
+import {
+  createExport,
+  downloadExport,
+  parseExport,
+} from "@/utils/annotationExport";
+import { downloadBlob, slugify } from "@/utils/download";
+import {
+  SubtreeExportFormat,
+  buildSubtreeExport,
+  toDocx,
+  toHtml,
+  toMarkdown,
+} from "@/utils/subtreeExport";
+import SubtreeExportMenu from "@/components/SubtreeExportMenu";
+import { CitationStyle, formatCitation } from "@/utils/citations";
+import {
+  OfflineDocument,
+  latestUpdatedAt,
+  offlineStore,
+} from "@/services/offlineStore";
+import { useOnlineStatus } from "@/hooks/useOnlineStatus";
+import {
+  findMatchRanges,
+  matchesSearchQuery,
+  parseSearchQuery,
+} from "@/utils/searchQuery";
+import { SearchSnippet } from "@/utils/searchIndex";
+import { useSearchIndex } from "@/hooks/useSearchIndex";
+import CommandPalette, { PaletteCommand } from "@/components/CommandPalette";
+import KeyboardShortcutsDialog, {
+  ShortcutGroup,
+} from "@/components/KeyboardShortcutsDialog";
+import CitationMenu from "@/components/CitationMenu";
+import AnnotationLayers, {
+  LayerAnnotationView,
+  LayerView,
+} from "@/components/AnnotationLayers";
+import AnnotationToolbar, {
+  HIGHLIGHT_CLASSES,
+} from "@/components/AnnotationToolbar";
+import AnnotationsPanel, {
+  PanelAnnotation,
+} from "@/components/AnnotationsPanel";
 
 interface BuildingCodeViewerProps {
   documentId?: string;
@@ -37,20 +120,185 @@ interface BuildingCodeViewerProps {
     year: number;
     version?: string;
     jurisdiction_name: string;
+    file_name?: string;
   };
+  // Provision to open, from /document/[id]/<code> or ?ref=<code>
+  referenceCode?: string;
+}
+
+type SearchTypeFilter = "all" | "article" | "sentence" | "definition";
+
+const SEARCH_TYPE_FILTERS: { value: SearchTypeFilter; label: string }[] = [
+  { value: "all", label: "All" },
+  { value: "article", label: "Articles" },
+  { value: "sentence", label: "Sentences" },
+  { value: "definition", label: "Definitions" },
+];
+
+const matchesTypeFilter = (node: HierarchyNode, filter: SearchTypeFilter) =>
+  filter === "all" ||
+  (filter === "definition"
+    ? !!node.is_definition
+    : node.content_type === filter);
+
+interface ServerSearchState {
+  results: ContentSearchResult[];
+  page: number;
+  totalPages: number;
+  loading: boolean;
+  error: string | null;
+}
+
+const EMPTY_SERVER_SEARCH: ServerSearchState = {
+  results: [],
+  page: 0,
+  totalPages: 0,
+  loading: false,
+  error: null,
+};
+
+const RESULTS_PAGE_SIZE = 50;
+const SERVER_PAGE_SIZE = 20;
+const SERVER_SEARCH_DELAY = 400;
+
+// Stand-in node for a server hit whose content is not loaded in the viewer
+const searchResultNode = (result: ContentSearchResult): HierarchyNode => ({
+  ...result,
+  font_family: null,
+  font_size: null,
+  bbox: null,
+  y_coordinate: null,
+  is_definition: false,
+  definition_term: null,
+  created_at: "",
+  updated_at: "",
+  references: [],
+});
+
+const subtreeIds = (node: HierarchyNode): number[] => [
+  node.id,
+  ...(node.children ?? []).flatMap(subtreeIds),
+];
+
+// Filter navigation to only show division to articles
+const shouldShowInNavigation = (item: HierarchyNode): boolean => {
+  const topLevelTypes = [
+    "division",
+    "part",
+    "section",
+    "subsection",
+    "article",
+  ];
+  return topLevelTypes.includes(item.content_type);
+};
+
+// Whether a navigation row has rows of its own; an article's sentences
+// are not listed, so it has none
+const hasNavigationChildren = (item: HierarchyNode) =>
+  !!item.children?.some(shouldShowInNavigation);
+
+// Heading element per content type, below the document title (h1)
+const HEADING_LEVELS: Record<string, 2 | 3 | 4 | 5 | 6> = {
+  division: 2,
+  part: 3,
+  section: 4,
+  subsection: 5,
+  article: 6,
+};
+
+// Other types (sentences, definitions, notes, tables) are not headings, so
+// they stay out of the screen-reader heading list
+const headingTag = (type: string) =>
+  HEADING_LEVELS[type]
+    ? (`h${HEADING_LEVELS[type]}` as "h2" | "h3" | "h4" | "h5" | "h6")
+    : "div";
+
+const SHORTCUT_GROUPS: ShortcutGroup[] = [
+  {
+    title: "General",
+    shortcuts: [
+      { keys: ["Ctrl/⌘", "K"], description: "Open command palette" },
+      { keys: ["?"], description: "Show keyboard shortcuts" },
+      { keys: ["Esc"], description: "Close dialog" },
+    ],
+  },
+  {
+    title: "Reading",
+    shortcuts: [
+      { keys: ["["], description: "Previous article" },
+      { keys: ["]"], description: "Next article" },
+    ],
+  },
+  {
+    title: "Navigation sidebar",
+    shortcuts: [
+      { keys: ["↑", "↓"], description: "Move between items" },
+      { keys: ["→"], description: "Expand, then go to first child" },
+      { keys: ["←"], description: "Collapse, then go to parent" },
+      { keys: ["Home", "End"], description: "First or last item" },
+      { keys: ["Enter"], description: "Open item" },
+    ],
+  },
+];
+
+// Position of a highlight in the annotatable text of its provision
+interface ContentRange {
+  start: number;
+  end: number;
+}
+
+interface ResolvedAnnotation extends PanelAnnotation {
+  range: ContentRange | null;
+}
+
+interface ResolvedLayerView extends LayerView {
+  annotations: (LayerAnnotationView & { range: ContentRange | null })[];
+}
+
+interface ContentHighlight extends ContentRange {
+  annotation: Annotation;
+  // Set for highlights from an imported layer
+  layerName?: string;
 }
 
 const BuildingCodeViewer: React.FC<BuildingCodeViewerProps> = ({
   documentId,
   documentInfo,
+  referenceCode,
 }) => {
   const [data, setData] = useState<HierarchyNode[]>([]);
+  // False while data holds only branches loaded for a link or search hit,
+  // before (or instead of, for documents too large to load) the whole tree
+  const [contentComplete, setContentComplete] = useState(false);
+  // Set when only those branches could be loaded
+  const [contentLoadFailed, setContentLoadFailed] = useState(false);
   const [expandedItems, setExpandedItems] = useState<Set<number>>(new Set());
   const [searchTerm, setSearchTerm] = useState("");
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedItem, setSelectedItem] = useState<number | null>(null);
-  const [searchResults, setSearchResults] = useState<HierarchyNode[]>([]);
+  // Ranked hits from the loaded content, and pages of server hits that
+  // cover content not loaded (yet)
+  const [localSearchResults, setLocalSearchResults] = useState<HierarchyNode[]>(
+    []
+  );
+  const [serverSearch, setServerSearch] =
+    useState<ServerSearchState>(EMPTY_SERVER_SEARCH);
+  const serverSearchTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [resultLimit, setResultLimit] = useState(RESULTS_PAGE_SIZE);
+  // Server hit waiting for its branch of content to load before navigating
+  const [pendingJump, setPendingJump] = useState<number | null>(null);
+  const [searchSnippets, setSearchSnippets] = useState<
+    Map<number, SearchSnippet | null>
+  >(new Map());
+  const searchRequest = useRef(0);
+  // Subtree the results are restricted to, and the kind of node shown
+  const [searchScope, setSearchScope] = useState<number | null>(null);
+  // Selection when the search began; opening results moves the selection
+  // but leaves the scope chips where they were
+  const [scopeOrigin, setScopeOrigin] = useState<number | null>(null);
+  const [searchTypeFilter, setSearchTypeFilter] =
+    useState<SearchTypeFilter>("all");
   const [hoveredItem, setHoveredItem] = useState<number | null>(null);
   const contentRefs = useRef<{ [key: number]: HTMLDivElement | null }>({});
   const contentContainerRef = useRef<HTMLDivElement>(null);
@@ -60,43 +308,771 @@ const BuildingCodeViewer: React.FC<BuildingCodeViewerProps> = ({
   const [contentExpandedItems, setContentExpandedItems] = useState<Set<number>>(
     new Set()
   );
+  const [showGlossary, setShowGlossary] = useState(false);
+  const [showNavigation, setShowNavigation] = useState(true);
+  const [showCommandPalette, setShowCommandPalette] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  // Read out by screen readers through the polite live region
+  const [announcement, setAnnouncement] = useState("");
+  // Row of the navigation tree that takes Tab focus (roving tabindex)
+  const [focusedNavItem, setFocusedNavItem] = useState<number | null>(null);
+  const navItemRefs = useRef<Map<number, HTMLDivElement>>(new Map());
+  const [pinnedPreviews, setPinnedPreviews] = useState<ProvisionPreview[]>([]);
+  const [showSourcePane, setShowSourcePane] = useState(false);
+  // Item shown in the source pane: the selection, or the top item while scrolling
+  const [sourceItem, setSourceItem] = useState<number | null>(null);
+  const sourceSyncFrame = useRef<number | null>(null);
+  const [unresolvedReference, setUnresolvedReference] = useState<{
+    code: string;
+    closest: ReferenceCodeMatch | null;
+  } | null>(null);
+  // Provision to open once the content has rendered, from the URL on load
+  const [initialTarget, setInitialTarget] = useState<number | null>(null);
+  const resolvedReference = useRef<string | null>(null);
 
   // Add this hook to get URL search params
   const params = useSearchParams();
   const highlightParam = params.get("highlight");
+  const router = useRouter();
+  const navigationHistory = useNavigationHistory();
+  // Latest navigation helpers, for effects that run on URL and data changes
+  // rather than whenever these are recreated. Assigned on every render.
+  const viewerNavigation = useRef<{
+    navigationHistory: NavigationHistory;
+    labelForItem: (id: number | null) => string;
+    navigateToItem: (id: number, scrollTop?: number) => void;
+    jumpToItem: (id: number) => void;
+  } | null>(null);
 
   // Check if we're in search mode
+  const hierarchyIndex = useMemo(() => indexHierarchy(data), [data]);
+
+  // Local hits first, in rank order, then server hits the local index did
+  // not find, such as those in content that has not been loaded
+  const searchResults = useMemo(() => {
+    const seen = new Set(localSearchResults.map((node) => node.id));
+    const serverOnly: HierarchyNode[] = [];
+    serverSearch.results.forEach((result) => {
+      if (seen.has(result.id)) return;
+      seen.add(result.id);
+      serverOnly.push(
+        hierarchyIndex.nodes.get(result.id) ?? searchResultNode(result)
+      );
+    });
+    return [...localSearchResults, ...serverOnly];
+  }, [localSearchResults, serverSearch.results, hierarchyIndex]);
+
   const isSearchMode = useMemo(() => {
     return searchTerm.trim().length > 0 && searchResults.length > 0;
   }, [searchTerm, searchResults]);
 
+  // Flattened visible content for windowed rendering: one row per heading and
+  // one per article, since an article renders its sentences and clauses inline
+  const contentRows = useMemo(() => {
+    const rows: { node: HierarchyNode; level: number }[] = [];
+    const rowIndexById = new Map<number, number>();
+
+    const mapToRow = (node: HierarchyNode, rowIndex: number) => {
+      rowIndexById.set(node.id, rowIndex);
+      node.children?.forEach((child) => mapToRow(child, rowIndex));
+    };
+
+    const walk = (nodes: HierarchyNode[], level: number) => {
+      nodes.forEach((node) => {
+        rows.push({ node, level });
+        if (node.content_type === "article") {
+          mapToRow(node, rows.length - 1);
+          return;
+        }
+        rowIndexById.set(node.id, rows.length - 1);
+        if (node.children && contentExpandedItems.has(node.id)) {
+          walk(node.children, level + 1);
+        }
+      });
+    };
+
+    walk(data, 0);
+    return { rows, rowIndexById };
+  }, [data, contentExpandedItems]);
+
+  const contentRowKeys = useMemo(
+    () => contentRows.rows.map((row) => row.node.id),
+    [contentRows]
+  );
+
+  const contentListRef = useRef<HTMLDivElement>(null);
+  const virtualRows = useVirtualRows({
+    keys: contentRowKeys,
+    containerRef: contentContainerRef,
+    listRef: contentListRef,
+  });
+
+  const referenceCodeIndex = useMemo(
+    () => buildReferenceCodeIndex(data),
+    [data]
+  );
+
+  // Ranked results narrowed by the scope and type chips, with a count for
+  // each chip and grouped by their Section in order of the best hit
+  const filteredSearch = useMemo(() => {
+    const inSubtree = (node: HierarchyNode, rootId: number) =>
+      node.id === rootId ||
+      getAncestors(hierarchyIndex, node.id).some(
+        (ancestor) => ancestor.id === rootId
+      );
+    const ofType = (nodes: HierarchyNode[], filter: SearchTypeFilter) =>
+      nodes.filter((node) => matchesTypeFilter(node, filter));
+
+    // The Part and Section around the selection the search began from, and
+    // that provision itself, plus the active scope when it is none of them
+    const origin =
+      scopeOrigin !== null ? hierarchyIndex.nodes.get(scopeOrigin) : null;
+    const scopeNodes = origin
+      ? [
+          ...getAncestors(hierarchyIndex, origin.id).filter(
+            (node) =>
+              node.content_type === "part" || node.content_type === "section"
+          ),
+          origin,
+        ]
+      : [];
+    const activeScope =
+      searchScope !== null ? hierarchyIndex.nodes.get(searchScope) : null;
+    if (activeScope && !scopeNodes.some((node) => node.id === activeScope.id)) {
+      scopeNodes.unshift(activeScope);
+    }
+
+    const scopes = scopeNodes.map((node) => {
+      const results = searchResults.filter((result) =>
+        inSubtree(result, node.id)
+      );
+      return {
+        node,
+        results,
+        count: ofType(results, searchTypeFilter).length,
+      };
+    });
+
+    const scoped =
+      scopes.find((scope) => scope.node.id === searchScope)?.results ??
+      searchResults;
+    const results = ofType(scoped, searchTypeFilter);
+
+    const groups: {
+      section: HierarchyNode | null;
+      results: HierarchyNode[];
+    }[] = [];
+    const bySection = new Map<number | null, HierarchyNode[]>();
+    results.slice(0, resultLimit).forEach((result) => {
+      const section =
+        [...getAncestors(hierarchyIndex, result.id), result].find(
+          (node) => node.content_type === "section"
+        ) ?? null;
+      const key = section?.id ?? null;
+      let group = bySection.get(key);
+      if (!group) {
+        group = [];
+        bySection.set(key, group);
+        groups.push({ section, results: group });
+      }
+      group.push(result);
+    });
+
+    const typeCounts = {} as Record<SearchTypeFilter, number>;
+    SEARCH_TYPE_FILTERS.forEach((filter) => {
+      typeCounts[filter.value] = ofType(scoped, filter.value).length;
+    });
+
+    return {
+      results,
+      groups,
+      scopes,
+      typeCounts,
+      documentCount: ofType(searchResults, searchTypeFilter).length,
+    };
+  }, [
+    searchResults,
+    searchScope,
+    searchTypeFilter,
+    scopeOrigin,
+    hierarchyIndex,
+    resultLimit,
+  ]);
+
+  // Ranked full-text index, built in a worker once per loaded document
+  const { search: searchLoadedContent, version: searchIndexVersion } =
+    useSearchIndex(data, referenceCodeIndex.fullCodes);
+
+  // Defined terms are indexed once per loaded document
+  const definitionIndex = useMemo(() => buildDefinitionIndex(data), [data]);
+
+  // Reverse index of cross-references for the "Referenced by" lists
+  const backlinkIndex = useMemo(
+    () => buildBacklinkIndex(data, referenceCodeIndex.fullCodes),
+    [data, referenceCodeIndex]
+  );
+
+  const bookmarks = useBookmarks();
+  const isOnline = useOnlineStatus();
+  // Set while showing the copy saved for offline reading
+  const [offlineCopy, setOfflineCopy] = useState<OfflineDocument | null>(null);
+
+  const itemBookmarkKey = (item: HierarchyNode) =>
+    bookmarkKey(
+      item.pdf_document_id || documentId || "",
+      scopedReferenceCode(referenceCodeIndex, item.id),
+      item.id
+    );
+
+  const toggleBookmark = (item: HierarchyNode) => {
+    const key = itemBookmarkKey(item);
+    try {
+      if (bookmarks.isBookmarked(key)) {
+        bookmarks.remove(key);
+      } else {
+        addBookmark(item);
+      }
+    } catch (error) {
+      console.error("Error saving bookmark:", error);
+      if (error instanceof Error) setAnnouncement(error.message);
+    }
+  };
+
+  const addBookmark = (item: HierarchyNode) =>
+    bookmarks.add({
+      documentId: item.pdf_document_id || documentId || "",
+      referenceCode: scopedReferenceCode(referenceCodeIndex, item.id),
+      contentId: item.id,
+      contentType: item.content_type,
+      title: item.title || "",
+      snippet: (item.content_text || "").substring(0, 200),
+      documentTitle: documentInfo?.title || "",
+      jurisdictionName: documentInfo?.jurisdiction_name || "",
+      year: documentInfo?.year ?? null,
+    });
+
+  const renderBookmarkButton = (item: HierarchyNode) => (
+    <BookmarkButton
+      active={bookmarks.isBookmarked(itemBookmarkKey(item))}
+      onToggle={() => toggleBookmark(item)}
+    />
+  );
+
+  const annotationState = useAnnotations(documentId);
+  const [showNotes, setShowNotes] = useState(false);
+  const [editingNote, setEditingNote] = useState<string | null>(null);
+  const [selectionDraft, setSelectionDraft] = useState<{
+    anchor: TextAnchor;
+    position: { top: number; left: number };
+  } | null>(null);
+
+  const panelAnnotations = useMemo<ResolvedAnnotation[]>(
+    () =>
+      annotationState.annotations
+        .map((annotation) => {
+          const resolution = resolveAnnotation(
+            annotation.anchor,
+            hierarchyIndex,
+            referenceCodeIndex
+          );
+          return {
+            annotation,
+            resolvedContentId: resolution.contentId,
+            range: resolution.range,
+          };
+        })
+        .sort((a, b) =>
+          a.annotation.createdAt.localeCompare(b.annotation.createdAt)
+        ),
+    [annotationState.annotations, hierarchyIndex, referenceCodeIndex]
+  );
+
+  const annotationLayers = useAnnotationLayers();
+  const [layerError, setLayerError] = useState<string | null>(null);
+
+  // Imported layers narrowed to this document and checked against its content
+  const layerViews = useMemo<ResolvedLayerView[]>(
+    () =>
+      annotationLayers.layers.map((layer) => ({
+        layer,
+        annotations: layer.annotations
+          .filter((annotation) => annotation.documentId === documentId)
+          .map((annotation) => {
+            const resolution = resolveAnnotation(
+              annotation.anchor,
+              hierarchyIndex,
+              referenceCodeIndex
+            );
+            return {
+              annotation,
+              resolvedContentId: resolution.contentId,
+              changed: resolution.changed,
+              range: resolution.range,
+            };
+          }),
+        bookmarks: layer.bookmarks
+          .filter((bookmark) => bookmark.documentId === documentId)
+          .map((bookmark) => {
+            const match = bookmark.referenceCode
+              ? resolveReferenceCode(referenceCodeIndex, bookmark.referenceCode)
+              : null;
+            const resolvedContentId = bookmark.referenceCode
+              ? match?.exact
+                ? match.id
+                : null
+              : hierarchyIndex.nodes.has(bookmark.contentId)
+              ? bookmark.contentId
+              : null;
+            return { bookmark, resolvedContentId };
+          }),
+      })),
+    [annotationLayers.layers, documentId, hierarchyIndex, referenceCodeIndex]
+  );
+
+  // content id -> highlighted ranges of its annotatable text, own and from
+  // visible layers
+  const highlightsByContent = useMemo(() => {
+    const result = new Map<number, ContentHighlight[]>();
+    const addHighlight = (
+      contentId: number | null,
+      range: ContentRange | null,
+      highlight: Omit<ContentHighlight, "start" | "end">
+    ) => {
+      if (contentId === null || !range) return;
+      const ranges = result.get(contentId) || [];
+      ranges.push({ ...range, ...highlight });
+      result.set(contentId, ranges);
+    };
+
+    panelAnnotations.forEach(({ annotation, resolvedContentId, range }) =>
+      addHighlight(resolvedContentId, range, { annotation })
+    );
+    layerViews
+      .filter((view) => view.layer.visible)
+      .forEach((view) =>
+        view.annotations.forEach((item) =>
+          addHighlight(item.resolvedContentId, item.range, {
+            annotation: item.annotation,
+            layerName: view.layer.name,
+          })
+        )
+      );
+    result.forEach((ranges) => ranges.sort((a, b) => a.start - b.start));
+    return result;
+  }, [panelAnnotations, layerViews]);
+
+  const importLayer = async (file: File) => {
+    try {
+      const { data, skipped } = parseExport(await file.text());
+      annotationLayers.add(file.name.replace(/\.json$/i, ""), data);
+      const invalid = [
+        skipped.annotations > 0 ? `${skipped.annotations} notes` : null,
+        skipped.bookmarks > 0 ? `${skipped.bookmarks} bookmarks` : null,
+      ].filter(Boolean);
+      setLayerError(
+        invalid.length > 0
+          ? `Imported, but skipped ${invalid.join(
+              " and "
+            )} that were not valid.`
+          : null
+      );
+    } catch (error) {
+      console.error("Error importing annotations:", error);
+      setLayerError(
+        error instanceof Error ? error.message : "Could not import the file."
+      );
+    }
+  };
+
+  // Storage can fill up when showing, hiding or removing a layer too
+  const updateLayers = (update: () => void) => {
+    try {
+      update();
+      setLayerError(null);
+    } catch (error) {
+      console.error("Error updating annotation layers:", error);
+      setLayerError(
+        error instanceof Error ? error.message : "Could not update the layers."
+      );
+    }
+  };
+
+  const exportAnnotations = () => {
+    if (!documentId) return;
+    const slug = slugify(documentInfo?.title || documentId);
+    downloadExport(
+      createExport(annotationState.annotations, bookmarks.bookmarks, [
+        documentId,
+      ]),
+      `notes-${slug}`
+    );
+  };
+
+  // Offer the highlight toolbar when text inside one provision is selected
+  const handleTextSelection = () => {
+    if (!documentId) return;
+    const selection = window.getSelection();
+    if (!selection || selection.isCollapsed || selection.rangeCount === 0) {
+      setSelectionDraft(null);
+      return;
+    }
+
+    const range = selection.getRangeAt(0);
+    const container = (
+      range.commonAncestorContainer instanceof Element
+        ? range.commonAncestorContainer
+        : range.commonAncestorContainer.parentElement
+    )?.closest<HTMLElement>("[data-annotatable]");
+    const node = container
+      ? hierarchyIndex.nodes.get(Number(container.dataset.annotatable))
+      : undefined;
+    if (!container || !node) {
+      setSelectionDraft(null);
+      return;
+    }
+
+    const text = getAnnotatableText(node);
+    const start = getTextOffset(
+      container,
+      range.startContainer,
+      range.startOffset
+    );
+    const end = getTextOffset(container, range.endContainer, range.endOffset);
+    if (end <= start || !text.substring(start, end).trim()) {
+      setSelectionDraft(null);
+      return;
+    }
+
+    const rect = range.getBoundingClientRect();
+    setSelectionDraft({
+      anchor: createAnchor(
+        text,
+        start,
+        end,
+        node.id,
+        referenceCodeIndex.fullCodes.get(node.id) || null
+      ),
+      position: { top: rect.top, left: rect.left + rect.width / 2 },
+    });
+  };
+
+  const createAnnotation = async (color: HighlightColor, withNote: boolean) => {
+    if (!selectionDraft || !documentId) return;
+    const now = new Date().toISOString();
+    try {
+      const saved = await annotationState.save({
+        id: `${Date.now().toString(36)}-${Math.random()
+          .toString(36)
+          .slice(2, 8)}`,
+        documentId,
+        anchor: selectionDraft.anchor,
+        color,
+        note: "",
+        createdAt: now,
+        updatedAt: now,
+      });
+      if (withNote) {
+        setShowNotes(true);
+        setEditingNote(saved.id);
+      }
+    } catch (error) {
+      console.error("Error saving annotation:", error);
+      if (error instanceof Error) setAnnouncement(error.message);
+    }
+    window.getSelection()?.removeAllRanges();
+    setSelectionDraft(null);
+  };
+
+  // Wrap the highlighted parts of a run of text that starts at offset
+  const renderHighlights = (
+    text: string,
+    offset: number,
+    ownerId: number | undefined,
+    key: string
+  ): React.ReactNode => {
+    const ranges =
+      ownerId !== undefined ? highlightsByContent.get(ownerId) : undefined;
+    const runEnd = offset + text.length;
+    const overlapping = (ranges || []).filter(
+      (range) => range.start < runEnd && range.end > offset
+    );
+    if (overlapping.length === 0) return text;
+
+    const parts: React.ReactNode[] = [];
+    let cursor = offset;
+    overlapping.forEach((range, i) => {
+      const start = Math.max(range.start, cursor);
+      const end = Math.min(range.end, runEnd);
+      if (end <= start) return;
+      if (start > cursor) {
+        parts.push(text.substring(cursor - offset, start - offset));
+      }
+      parts.push(
+        <mark
+          key={`${key}-hl-${i}`}
+          className={`${
+            HIGHLIGHT_CLASSES[range.annotation.color]
+          } text-inherit rounded-sm cursor-pointer ${
+            range.layerName
+              ? "underline decoration-dashed decoration-gray-500"
+              : ""
+          }`}
+          title={
+            range.layerName
+              ? `${range.layerName}: ${range.annotation.note}`
+              : range.annotation.note || undefined
+          }
+          onClick={(e) => {
+            e.stopPropagation();
+            setShowNotes(true);
+            if (!range.layerName) setEditingNote(range.annotation.id);
+          }}
+        >
+          {text.substring(start - offset, end - offset)}
+        </mark>
+      );
+      cursor = end;
+    });
+    if (cursor < runEnd) parts.push(text.substring(cursor - offset));
+
+    return <React.Fragment key={key}>{parts}</React.Fragment>;
+  };
+
+  const citationFor = (item: HierarchyNode, style: CitationStyle) =>
+    formatCitation(item, hierarchyIndex, referenceCodeIndex, style, {
+      documentId: documentId || item.pdf_document_id,
+      document: documentInfo,
+      origin: window.location.origin,
+    });
+
+  // Per-provision actions: copy a citation and bookmark
+  const renderItemActions = (item: HierarchyNode) => (
+    <span className="flex items-center gap-1 flex-shrink-0">
+      <CitationMenu getCitation={(style) => citationFor(item, style)} />
+      {renderBookmarkButton(item)}
+    </span>
+  );
+
+  const renderBacklinks = (item: HierarchyNode) => (
+    <ReferencedBy
+      backlinks={backlinkIndex.get(item.id) || []}
+      onNavigate={jumpToItem}
+    />
+  );
+
   useEffect(() => {
     fetchData();
   }, [documentId]);
 
-  // Add this useEffect to handle highlight parameter after data is loaded
+  // The highlight parameter is the browser-history side of the jump history:
+  // it is set on every jump and changes again on back/forward
   useEffect(() => {
-    if (data.length > 0 && highlightParam) {
-      const highlightId = parseInt(highlightParam);
-      if (!isNaN(highlightId)) {
-        // Small delay to ensure the DOM is fully rendered
-        setTimeout(() => {
-          navigateToItem(highlightId);
-        }, 500);
-      }
+    if (data.length === 0 || !viewerNavigation.current) return;
+    const { navigationHistory, labelForItem, navigateToItem } =
+      viewerNavigation.current;
+
+    const highlightId = highlightParam ? parseInt(highlightParam) : null;
+    if (highlightId !== null && isNaN(highlightId)) return;
+
+    const isInitialLoad = navigationHistory.entries.length === 0;
+    const entry = navigationHistory.sync(
+      highlightId,
+      labelForItem(highlightId),
+      contentContainerRef.current?.scrollTop ?? 0
+    );
+    if (!entry) return;
+
+    if (isInitialLoad) {
+      if (entry.id !== null) setInitialTarget(entry.id);
+      return;
+    }
+
+    if (entry.id === null) {
+      setSelectedItem(null);
+      contentContainerRef.current?.scrollTo({ top: entry.scrollTop ?? 0 });
+    } else {
+      navigateToItem(entry.id, entry.scrollTop ?? undefined);
     }
   }, [data, highlightParam]);
 
+  // Open the provision named by a human-readable deep link. A highlight
+  // parameter is the later jump, set on top of the link, so it wins.
+  useEffect(() => {
+    if (referenceCodeIndex.fullCodes.size === 0 || !referenceCode) return;
+    // Resolved once per link, not again when the content or URL changes
+    if (resolvedReference.current === referenceCode) return;
+    resolvedReference.current = referenceCode;
+    if (highlightParam) return;
+
+    const match = resolveReferenceCode(referenceCodeIndex, referenceCode);
+    if (match?.exact) {
+      setUnresolvedReference(null);
+      setInitialTarget(match.id);
+    } else {
+      setUnresolvedReference({ code: referenceCode, closest: match });
+    }
+  }, [referenceCodeIndex, referenceCode, highlightParam]);
+
+  useEffect(() => {
+    if (initialTarget === null) return;
+    // Small delay to ensure the DOM is fully rendered
+    const timer = setTimeout(() => {
+      viewerNavigation.current?.navigateToItem(initialTarget);
+      setInitialTarget(null);
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [initialTarget]);
+
+  useEffect(() => {
+    setSourceItem(selectedItem);
+  }, [selectedItem]);
+
+  // Follow the reading position in the source pane: the first item with a
+  // bounding box whose block reaches below the top of the content area
+  const handleContentScroll = () => {
+    // The highlight toolbar is positioned for the unscrolled selection
+    if (selectionDraft) setSelectionDraft(null);
+    if (!showSourcePane || sourceSyncFrame.current !== null) return;
+
+    sourceSyncFrame.current = requestAnimationFrame(() => {
+      sourceSyncFrame.current = null;
+      const container = contentContainerRef.current;
+      if (!container) return;
+
+      const containerTop = container.getBoundingClientRect().top;
+      let topItem: number | null = null;
+
+      // Only rows from the top of the viewport down are measured, in
+      // document order, stopping at the first match or unmounted row
+      const isAtTop = (node: HierarchyNode): boolean => {
+        const element = contentRefs.current[node.id];
+        if (
+          element &&
+          node.bbox &&
+          element.getBoundingClientRect().bottom > containerTop
+        ) {
+          topItem = node.id;
+          return true;
+        }
+        return (
+          node.content_type === "article" && !!node.children?.some(isAtTop)
+        );
+      };
+
+      for (
+        let index = virtualRows.firstVisibleIndex();
+        index < contentRows.rows.length;
+        index++
+      ) {
+        const { node } = contentRows.rows[index];
+        if (!contentRefs.current[node.id] || isAtTop(node)) break;
+      }
+
+      if (topItem !== null) {
+        setSourceItem(topItem);
+      }
+    });
+  };
+
+  const labelForItem = (id: number | null) => {
+    if (id === null) return "Start of document";
+    const node = hierarchyIndex.nodes.get(id);
+    return node ? formatNodeLabel(node) : `Item ${id}`;
+  };
+
+  // Navigate to an item and record the jump in the in-viewer and browser
+  // history. Jumping to the provision already shown only scrolls back to it.
+  const jumpToItem = (id: number) => {
+    if (highlightParam === id.toString()) {
+      navigateToItem(id);
+      return;
+    }
+    navigationHistory.record(
+      id,
+      labelForItem(id),
+      contentContainerRef.current?.scrollTop ?? 0
+    );
+    router.push(
+      {
+        pathname: router.pathname,
+        query: { ...router.query, highlight: id.toString() },
+      },
+      undefined,
+      { shallow: true, scroll: false }
+    );
+    navigateToItem(id);
+    setAnnouncement(`Moved to ${labelForItem(id)}`);
+  };
+
+  // Content from the network, refreshing the offline copy when there is one,
+  // or from the offline copy when the network fails
+  const loadDocumentContent = async (id: string) => {
+    try {
+      const contentData = await buildingCodeService.getDocumentContent(id);
+      setOfflineCopy(null);
+      offlineStore
+        .get(id)
+        .then((saved) => {
+          const updatedAt = latestUpdatedAt(contentData.content);
+          if (
+            saved &&
+            updatedAt &&
+            (!saved.contentUpdatedAt || updatedAt > saved.contentUpdatedAt)
+          ) {
+            return offlineStore.save(id, saved.document, contentData);
+          }
+        })
+        .catch((err) => console.error("Error updating offline copy:", err));
+      return contentData;
+    } catch (err) {
+      const saved = await offlineStore.get(id).catch(() => null);
+      if (!saved) throw err;
+      setOfflineCopy(saved);
+      return saved.content;
+    }
+  };
+
   const fetchData = async () => {
     try {
       setLoading(true);
       setError(null);
+      setContentComplete(false);
+      setContentLoadFailed(false);
 
       if (documentId) {
-        const contentData = await buildingCodeService.getDocumentContent(
-          documentId
+        // A linked provision is shown from its branch first, and the rest of
+        // the document loads behind it. Until it has, or if it cannot (e.g.
+        // when too large), search asks the server for what is not loaded.
+        let branchShown = false;
+        const linkedId = highlightParam ? parseInt(highlightParam) : NaN;
+        if (!isNaN(linkedId) && isOnline) {
+          try {
+            const branch = await libraryService.getContentBranch(
+              documentId,
+              linkedId
+            );
+            const ids = subtreeIds(branch);
+            setData([branch]);
+            setContentExpandedItems(new Set(ids));
+            setNavigationExpandedItems(new Set(ids));
+            setLoading(false);
+            branchShown = true;
+          } catch (err) {
+            console.error("Error loading linked provision:", err);
+          }
+        }
+
+        const contentData = await loadDocumentContent(documentId).catch(
+          (err) => {
+            if (!branchShown) throw err;
+            console.error("Error loading the rest of the document:", err);
+            setContentLoadFailed(true);
+            return null;
+          }
         );
+        if (!contentData) return;
         setData(contentData.content);
+        setContentComplete(true);
 
         // Auto-expand ALL items in CONTENT
         const allContentIds = new Set<number>();
@@ -127,6 +1103,7 @@ const BuildingCodeViewer: React.FC<BuildingCodeViewerProps> = ({
         const flatData = await buildingCodeService.getHierarchy();
         const hierarchicalData = buildHierarchy(flatData);
         setData(hierarchicalData);
+        setContentComplete(true);
 
         // Auto-expand ALL items in CONTENT
         const allContentIds = new Set<number>();
@@ -190,10 +1167,76 @@ const BuildingCodeViewer: React.FC<BuildingCodeViewerProps> = ({
     setContentExpandedItems(newExpanded);
   };
 
+  // Render plain text, underlining occurrences of defined terms. offset is
+  // where the text starts within the owner's text, for placing highlights.
+  const renderWithDefinitions = (
+    text: string,
+    keyPrefix: string,
+    ownerId?: number,
+    offset: number = 0
+  ) => {
+    const segments = splitByDefinitions(text, definitionIndex, ownerId);
+    if (segments.length === 1 && !segments[0].entry) {
+      return (
+        <span key={keyPrefix}>
+          {renderHighlights(text, offset, ownerId, `${keyPrefix}-txt`)}
+        </span>
+      );
+    }
+
+    let position = offset;
+    return (
+      <span key={keyPrefix}>
+        {segments.map((segment, i) => {
+          const segmentOffset = position;
+          position += segment.text.length;
+          return segment.entry ? (
+            <DefinitionTerm
+              key={`${keyPrefix}-def-${i}`}
+              text={segment.text}
+              entry={segment.entry}
+              onNavigate={jumpToItem}
+            >
+              {renderHighlights(
+                segment.text,
+                segmentOffset,
+                ownerId,
+                `${keyPrefix}-def-${i}`
+              )}
+            </DefinitionTerm>
+          ) : (
+            <React.Fragment key={`${keyPrefix}-txt-${i}`}>
+              {renderHighlights(
+                segment.text,
+                segmentOffset,
+                ownerId,
+                `${keyPrefix}-txt-${i}`
+              )}
+            </React.Fragment>
+          );
+        })}
+      </span>
+    );
+  };
+
   // Function to highlight references in text with purple color
-  const highlightReferences = (text: string, references: Reference[] = []) => {
+  const highlightReferences = (
+    text: string,
+    references: Reference[] = [],
+    ownerId?: number
+  ) => {
+    // Selections inside this element can be turned into annotations
+    const annotatable = (content: React.ReactNode) =>
+      ownerId !== undefined ? (
+        <span data-annotatable={ownerId}>{content}</span>
+      ) : (
+        <>{content}</>
+      );
+
     if (!text || references.length === 0) {
-      return <>{text}</>;
+      return annotatable(
+        text && renderWithDefinitions(text, "text-all", ownerId)
+      );
     }
 
     // Sort references by position in text (we'll use reference_position for order)
@@ -202,7 +1245,7 @@ const BuildingCodeViewer: React.FC<BuildingCodeViewerProps> = ({
     );
 
     let lastIndex = 0;
-    const elements: JSX.Element[] = [];
+    const elements: React.ReactElement[] = [];
     const textLower = text.toLowerCase();
 
     sortedReferences.forEach((ref, index) => {
@@ -216,26 +1259,28 @@ const BuildingCodeViewer: React.FC<BuildingCodeViewerProps> = ({
         // Add text before the reference
         if (refIndex > lastIndex) {
           elements.push(
-            <span key={`text-${index}`}>
-              {text.substring(lastIndex, refIndex)}
-            </span>
+            renderWithDefinitions(
+              text.substring(lastIndex, refIndex),
+              `text-${index}`,
+              ownerId,
+              lastIndex
+            )
           );
         }
 
         // Add the highlighted reference
+        const linkText = text.substring(refIndex, refIndex + refText.length);
         elements.push(
-          <span
+          <ReferenceLink
             key={`ref-${index}`}
-            className=" text-purple-800 px-1 rounded cursor-pointer  transition-colors borde font-medium"
-            title={`Click to view definition of ${refText}`}
-            onClick={(e) => {
-              e.stopPropagation();
-              handleReferenceClick(ref);
-            }}
+            text={linkText}
+            href={referenceHref(ref)}
+            preview={resolveReferencePreview(ref, hierarchyIndex)}
+            onNavigate={() => handleReferenceClick(ref)}
+            onPin={pinPreview}
           >
-            {text.substring(refIndex, refIndex + refText.length)}
-            <ExternalLink size={12} className="inline ml-1" />
-          </span>
+            {renderHighlights(linkText, refIndex, ownerId, `ref-${index}`)}
+          </ReferenceLink>
         );
 
         lastIndex = refIndex + refText.length;
@@ -244,25 +1289,59 @@ const BuildingCodeViewer: React.FC<BuildingCodeViewerProps> = ({
 
     // Add remaining text after last reference
     if (lastIndex < text.length) {
-      elements.push(<span key="text-final">{text.substring(lastIndex)}</span>);
+      elements.push(
+        renderWithDefinitions(
+          text.substring(lastIndex),
+          "text-final",
+          ownerId,
+          lastIndex
+        )
+      );
     }
 
-    return <>{elements}</>;
+    return annotatable(elements);
+  };
+
+  // Keep a reference preview docked in the side panel
+  const pinPreview = (preview: ProvisionPreview) => {
+    setPinnedPreviews((prev) =>
+      prev.some((pinned) => pinned.id === preview.id)
+        ? prev
+        : [...prev, preview]
+    );
   };
 
   // Handle reference click - navigate to target content
-  const handleReferenceClick = (reference: Reference) => {
-    console.log("Reference clicked:", reference);
+  const referenceTargetId = (reference: Reference): number | null => {
     if (reference.target_content_id) {
-      navigateToItem(reference.target_content_id);
+      return reference.target_content_id;
     } else if (reference.hyperlink_target) {
       // Extract ID from hyperlink target like "#content-480"
       const match = reference.hyperlink_target.match(/#content-(\d+)/);
       if (match) {
-        const targetId = parseInt(match[1]);
-        navigateToItem(targetId);
+        return parseInt(match[1]);
       }
     }
+    return null;
+  };
+
+  const handleReferenceClick = (reference: Reference) => {
+    console.log("Reference clicked:", reference);
+    const targetId = referenceTargetId(reference);
+    if (targetId !== null) {
+      jumpToItem(targetId);
+    }
+  };
+
+  // Address of a reference target, so links can be opened in a new tab
+  const referenceHref = (reference: Reference) => {
+    const targetId = referenceTargetId(reference);
+    if (targetId === null) return undefined;
+    if (!documentId) return `#content-${targetId}`;
+    const code = scopedReferenceCode(referenceCodeIndex, targetId);
+    return code
+      ? buildProvisionPath(documentId, code)
+      : `/document/${documentId}?highlight=${targetId}`;
   };
 
   const toggleExpand = (id: number, event?: React.MouseEvent) => {
@@ -279,53 +1358,238 @@ const BuildingCodeViewer: React.FC<BuildingCodeViewerProps> = ({
   };
 
   // Search functionality
+  // Next page of server hits for a query, scoped to this document, while
+  // only part of it is loaded; once it all is, the local index has every hit.
+  // The server does not know the query syntax, so it gets the plain terms and
+  // its hits are checked against the full query here.
+  const loadServerResults = async (
+    term: string,
+    page: number,
+    requestId: number
+  ) => {
+    const query = parseSearchQuery(term);
+    const text = query.highlightTerms.map((t) => t.value).join(" ");
+    if (!documentId || !text || !isOnline || contentComplete) return;
+
+    setServerSearch((prev) => ({ ...prev, loading: true, error: null }));
+    try {
+      const response: ContentSearchResponse =
+        await libraryService.searchContent(
+          text,
+          documentId,
+          page,
+          SERVER_PAGE_SIZE
+        );
+      if (requestId !== searchRequest.current) return;
+
+      const hits = response.results.filter((result) =>
+        matchesSearchQuery(query, {
+          text: [result.reference_code, result.title, result.content_text]
+            .filter(Boolean)
+            .join(" "),
+          type: result.content_type,
+          codes: [
+            result.reference_code,
+            referenceCodeIndex.fullCodes.get(result.id),
+          ].filter((code): code is string => !!code),
+        })
+      );
+      setServerSearch((prev) => ({
+        results: page === 1 ? hits : [...prev.results, ...hits],
+        page,
+        totalPages: response.pagination.totalPages,
+        loading: false,
+        error: null,
+      }));
+    } catch (error) {
+      console.error("Error searching on the server:", error);
+      if (requestId !== searchRequest.current) return;
+      setServerSearch((prev) => ({
+        ...prev,
+        loading: false,
+        error:
+          "Server search is unavailable; showing matches in the loaded content only.",
+      }));
+    }
+  };
+
   const handleSearch = (term: string) => {
+    if (!searchTerm.trim() && term.trim()) setScopeOrigin(selectedItem);
     setSearchTerm(term);
+    const requestId = ++searchRequest.current;
+    setServerSearch(EMPTY_SERVER_SEARCH);
+    setResultLimit(RESULTS_PAGE_SIZE);
+    if (serverSearchTimer.current) clearTimeout(serverSearchTimer.current);
+    if (!term.trim()) return;
+
+    // The server is asked once typing pauses
+    serverSearchTimer.current = setTimeout(
+      () => loadServerResults(term, 1, requestId),
+      SERVER_SEARCH_DELAY
+    );
+  };
 
-    if (!term.trim()) {
-      setSearchResults([]);
+  // Search the loaded content as the term changes, and again whenever the
+  // index is rebuilt, e.g. after a server hit's branch is merged in
+  useEffect(() => {
+    if (!searchTerm.trim()) {
+      setLocalSearchResults([]);
+      setSearchSnippets(new Map());
       return;
     }
 
-    const results: HierarchyNode[] = [];
-    const searchInNodes = (nodes: HierarchyNode[]) => {
-      nodes.forEach((node) => {
-        const matchesSearch =
-          node.title?.toLowerCase().includes(term.toLowerCase()) ||
-          node.content_text?.toLowerCase().includes(term.toLowerCase()) ||
-          node.reference_code?.toLowerCase().includes(term.toLowerCase());
-
-        if (matchesSearch) {
-          results.push(node);
-        }
-
-        if (node.children) {
-          searchInNodes(node.children);
-        }
-      });
+    // A later keystroke or rebuild supersedes this search
+    let superseded = false;
+    searchLoadedContent(searchTerm)
+      .then((hits) => {
+        if (superseded) return;
+        setLocalSearchResults(
+          hits
+            .map((hit) => hierarchyIndex.nodes.get(hit.id))
+            .filter((node): node is HierarchyNode => !!node)
+        );
+        setSearchSnippets(new Map(hits.map((hit) => [hit.id, hit.snippet])));
+      })
+      .catch((error) => console.error("Error searching document:", error));
+    return () => {
+      superseded = true;
     };
+  }, [searchTerm, searchLoadedContent, searchIndexVersion, hierarchyIndex]);
+
+  // Reveal the next page of results, fetching more from the server once the
+  // ones already merged run out
+  const showMoreResults = () => {
+    const limit = resultLimit + RESULTS_PAGE_SIZE;
+    setResultLimit(limit);
+    if (
+      filteredSearch.results.length < limit &&
+      serverSearch.page < serverSearch.totalPages &&
+      !serverSearch.loading
+    ) {
+      loadServerResults(
+        searchTerm,
+        serverSearch.page + 1,
+        searchRequest.current
+      );
+    }
+  };
+
+  // Server hits may lie outside the loaded content: load the branch holding
+  // one, then navigate once it is in the tree
+  const openSearchResult = async (id: number) => {
+    if (hierarchyIndex.nodes.has(id) || !documentId) {
+      jumpToItem(id);
+      return;
+    }
 
-    searchInNodes(data);
-    setSearchResults(results);
+    try {
+      const branch = await libraryService.getContentBranch(documentId, id);
+      const branchIds = subtreeIds(branch);
+      setData((prev) => mergeBranch(prev, branch));
+      setContentExpandedItems((prev) => new Set([...prev, ...branchIds]));
+      setNavigationExpandedItems((prev) => new Set([...prev, ...branchIds]));
+      setPendingJump(id);
+    } catch (error) {
+      console.error("Error loading search result:", error);
+      setServerSearch((prev) => ({
+        ...prev,
+        error: "Could not load this result. Please try again.",
+      }));
+    }
   };
 
+  useEffect(() => {
+    if (pendingJump !== null && hierarchyIndex.nodes.has(pendingJump)) {
+      setPendingJump(null);
+      viewerNavigation.current?.jumpToItem(pendingJump);
+    }
+  }, [hierarchyIndex, pendingJump]);
+
+  useEffect(
+    () => () => {
+      if (serverSearchTimer.current) clearTimeout(serverSearchTimer.current);
+    },
+    []
+  );
+
+  // Announce the result count once typing pauses, not on every keystroke
+  useEffect(() => {
+    if (!searchTerm.trim()) return;
+    const timer = setTimeout(() => {
+      setAnnouncement(
+        filteredSearch.results.length === 0
+          ? `No results for ${searchTerm}`
+          : `${filteredSearch.results.length} ${
+              filteredSearch.results.length === 1 ? "result" : "results"
+            } for ${searchTerm}`
+      );
+    }, 800);
+    return () => clearTimeout(timer);
+  }, [filteredSearch, searchTerm]);
+
   const highlightText = (text: string, highlight: string) => {
     if (!highlight || !text) return text;
 
-    const parts = text.split(new RegExp(`(${highlight})`, "gi"));
-    return (
-      <>
-        {parts.map((part, i) =>
-          part.toLowerCase() === highlight.toLowerCase() ? (
-            <mark key={i} className="bg-yellow-300 px-0.5 rounded">
-              {part}
-            </mark>
-          ) : (
-            part
-          )
-        )}
-      </>
+    const ranges = findMatchRanges(
+      text,
+      parseSearchQuery(highlight).highlightTerms
     );
+    if (ranges.length === 0) return text;
+
+    const parts: React.ReactNode[] = [];
+    let lastIndex = 0;
+    ranges.forEach((range, i) => {
+      parts.push(text.slice(lastIndex, range.start));
+      parts.push(
+        <mark key={i} className="bg-yellow-300 px-0.5 rounded">
+          {text.slice(range.start, range.end)}
+        </mark>
+      );
+      lastIndex = range.end;
+    });
+    parts.push(text.slice(lastIndex));
+    return <>{parts}</>;
+  };
+
+  const renderSearchChip = (
+    label: string,
+    count: number,
+    active: boolean,
+    onSelect: () => void,
+    key: string | number = label
+  ) => (
+    <button
+      key={key}
+      onClick={onSelect}
+      aria-pressed={active}
+      className={`max-w-full truncate px-2.5 py-1 rounded-full text-xs font-medium border transition-colors ${
+        active
+          ? "bg-blue-600 border-blue-600 text-white"
+          : "bg-white border-blue-200 text-blue-700 hover:bg-blue-50"
+      }`}
+    >
+      {label}{" "}
+      <span className={active ? "text-blue-100" : "text-gray-500"}>
+        {count}
+      </span>
+    </button>
+  );
+
+  // Snippet around the hits of a ranked search result
+  const renderSnippet = (snippet: SearchSnippet) => {
+    const parts: React.ReactNode[] = [];
+    let lastIndex = 0;
+    snippet.ranges.forEach((range, i) => {
+      parts.push(snippet.text.slice(lastIndex, range.start));
+      parts.push(
+        <mark key={i} className="bg-yellow-300 px-0.5 rounded">
+          {snippet.text.slice(range.start, range.end)}
+        </mark>
+      );
+      lastIndex = range.end;
+    });
+    parts.push(snippet.text.slice(lastIndex));
+    return <>{parts}</>;
   };
 
   const getTypeStyles = (type: string) => {
@@ -359,31 +1623,359 @@ const BuildingCodeViewer: React.FC<BuildingCodeViewerProps> = ({
     return styles[type] || { text: "text-sm text-black font-normal" };
   };
 
-  // Filter navigation to only show division to articles
-  const shouldShowInNavigation = (item: HierarchyNode): boolean => {
-    const topLevelTypes = [
-      "division",
-      "part",
-      "section",
-      "subsection",
-      "article",
-    ];
-    return topLevelTypes.includes(item.content_type);
+  // Reader view of the Part containing the selection, or the whole document
+  const openPrintView = () => {
+    if (!documentId) return;
+    const selected =
+      selectedItem !== null ? hierarchyIndex.nodes.get(selectedItem) : null;
+    const part = selected
+      ? selected.content_type === "part"
+        ? selected
+        : getAncestors(hierarchyIndex, selected.id).find(
+            (ancestor) => ancestor.content_type === "part"
+          )
+      : undefined;
+    router.push(
+      `/document/${documentId}/print${part ? `?nodes=${part.id}` : ""}`
+    );
   };
 
-  const renderNavigationItem = (item: HierarchyNode, level: number = 0) => {
-    if (!shouldShowInNavigation(item)) {
-      return null;
+  // Download a Part, Section or Article with its provisions
+  const exportSubtree = async (
+    item: HierarchyNode,
+    format: SubtreeExportFormat
+  ) => {
+    const exported = buildSubtreeExport(item, {
+      documentId,
+      info: documentInfo,
+      codes: referenceCodeIndex,
+      origin: window.location.origin,
+    });
+    const fileName = slugify(
+      [documentInfo?.title, exported.label].filter(Boolean).join(" ")
+    );
+
+    try {
+      if (format === "markdown") {
+        downloadBlob(
+          new Blob([toMarkdown(exported)], { type: "text/markdown" }),
+          `${fileName}.md`
+        );
+      } else if (format === "html") {
+        downloadBlob(
+          new Blob([toHtml(exported)], { type: "text/html" }),
+          `${fileName}.html`
+        );
+      } else {
+        downloadBlob(await toDocx(exported), `${fileName}.docx`);
+      }
+    } catch (error) {
+      console.error("Error exporting content:", error);
     }
+  };
 
-    const hasChildren = item.children && item.children.length > 0;
+  // Navigation rows currently rendered, in order, for arrow-key movement
+  const visibleNavigationItems = useMemo(() => {
+    const items: {
+      id: number;
+      parentId: number | null;
+      hasChildren: boolean;
+    }[] = [];
+    const walk = (nodes: HierarchyNode[], parentId: number | null) =>
+      nodes.forEach((node) => {
+        if (!shouldShowInNavigation(node)) return;
+        const hasChildren = hasNavigationChildren(node);
+        items.push({ id: node.id, parentId, hasChildren });
+        if (hasChildren && navigationExpandedItems.has(node.id)) {
+          walk(node.children!, node.id);
+        }
+      });
+    walk(data, null);
+    return items;
+  }, [data, navigationExpandedItems]);
+
+  // Articles in document order, for [ and ]
+  const articleOrder = useMemo(() => {
+    const order = new Map<number, number>();
+    const articles: number[] = [];
+    const walk = (nodes: HierarchyNode[]) =>
+      nodes.forEach((node) => {
+        order.set(node.id, order.size);
+        if (node.content_type === "article") articles.push(node.id);
+        if (node.children) walk(node.children);
+      });
+    walk(data);
+    return { order, articles };
+  }, [data]);
+
+  const focusNavigationItem = (id: number) => {
+    setFocusedNavItem(id);
+    navItemRefs.current.get(id)?.focus();
+  };
+
+  // Tree keys: up/down between rows, right/left to expand, enter, collapse
+  // or climb to the parent, Home/End for the first and last row
+  const handleNavigationKeyDown = (e: React.KeyboardEvent, id: number) => {
+    const position = visibleNavigationItems.findIndex((item) => item.id === id);
+    const current = visibleNavigationItems[position];
+    if (!current) return;
+    const isExpanded = navigationExpandedItems.has(id);
+
+    switch (e.key) {
+      case "ArrowDown":
+        if (position < visibleNavigationItems.length - 1) {
+          focusNavigationItem(visibleNavigationItems[position + 1].id);
+        }
+        break;
+      case "ArrowUp":
+        if (position > 0) {
+          focusNavigationItem(visibleNavigationItems[position - 1].id);
+        }
+        break;
+      case "ArrowRight":
+        if (current.hasChildren && !isExpanded) {
+          toggleNavigationExpand(id);
+        } else if (current.hasChildren) {
+          const next = visibleNavigationItems[position + 1];
+          if (next?.parentId === id) focusNavigationItem(next.id);
+        }
+        break;
+      case "ArrowLeft":
+        if (current.hasChildren && isExpanded) {
+          toggleNavigationExpand(id);
+        } else if (current.parentId !== null) {
+          focusNavigationItem(current.parentId);
+        }
+        break;
+      case "Home":
+        if (visibleNavigationItems.length > 0) {
+          focusNavigationItem(visibleNavigationItems[0].id);
+        }
+        break;
+      case "End":
+        if (visibleNavigationItems.length > 0) {
+          focusNavigationItem(
+            visibleNavigationItems[visibleNavigationItems.length - 1].id
+          );
+        }
+        break;
+      case "Enter":
+      case " ":
+        jumpToItem(id);
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  // Previous or next article from the selection, skipping the sentences of
+  // the article the selection is in
+  const goToAdjacentArticle = (direction: 1 | -1) => {
+    const { order, articles } = articleOrder;
+    if (articles.length === 0) return;
+
+    let currentId = selectedItem;
+    if (currentId !== null) {
+      const article = [
+        hierarchyIndex.nodes.get(currentId)!,
+        ...getAncestors(hierarchyIndex, currentId),
+      ].find((node) => node?.content_type === "article");
+      if (article) currentId = article.id;
+    }
+    const currentOrder = currentId !== null ? order.get(currentId) ?? -1 : -1;
+
+    const target =
+      direction === 1
+        ? articles.find((id) => order.get(id)! > currentOrder)
+        : [...articles].reverse().find((id) => order.get(id)! < currentOrder);
+    if (target !== undefined) jumpToItem(target);
+  };
+
+  const setAllExpanded = (expanded: boolean) => {
+    const ids = expanded
+      ? new Set(Array.from(hierarchyIndex.nodes.keys()))
+      : new Set<number>();
+    setContentExpandedItems(ids);
+    setNavigationExpandedItems(new Set(ids));
+  };
+
+  const copySelectedCitation = () => {
+    const item =
+      selectedItem !== null ? hierarchyIndex.nodes.get(selectedItem) : null;
+    if (!item) return;
+    navigator.clipboard
+      .writeText(citationFor(item, "formal"))
+      .catch((error) => console.error("Failed to copy citation:", error));
+  };
+
+  const selectedNode =
+    selectedItem !== null ? hierarchyIndex.nodes.get(selectedItem) : undefined;
+
+  const paletteCommands: PaletteCommand[] = [
+    {
+      id: "toggle-sidebar",
+      label: showNavigation
+        ? "Hide navigation sidebar"
+        : "Show navigation sidebar",
+      run: () => setShowNavigation((prev) => !prev),
+    },
+    {
+      id: "expand-all",
+      label: "Expand all",
+      run: () => setAllExpanded(true),
+    },
+    {
+      id: "collapse-all",
+      label: "Collapse all",
+      run: () => setAllExpanded(false),
+    },
+    {
+      id: "previous-article",
+      label: "Previous article",
+      shortcut: "[",
+      run: () => goToAdjacentArticle(-1),
+    },
+    {
+      id: "next-article",
+      label: "Next article",
+      shortcut: "]",
+      run: () => goToAdjacentArticle(1),
+    },
+    ...(selectedNode
+      ? [
+          {
+            id: "bookmark",
+            label: bookmarks.isBookmarked(itemBookmarkKey(selectedNode))
+              ? "Remove bookmark from selected provision"
+              : "Bookmark selected provision",
+            detail: labelForItem(selectedNode.id),
+            run: () => toggleBookmark(selectedNode),
+          },
+          {
+            id: "copy-citation",
+            label: "Copy citation of selected provision",
+            detail: labelForItem(selectedNode.id),
+            run: copySelectedCitation,
+          },
+        ]
+      : []),
+    {
+      id: "glossary",
+      label: showGlossary ? "Hide glossary" : "Show glossary",
+      run: () => setShowGlossary((prev) => !prev),
+    },
+    {
+      id: "shortcuts",
+      label: "Show keyboard shortcuts",
+      shortcut: "?",
+      run: () => setShowShortcuts(true),
+    },
+  ];
+
+  // Typed text doubles as a reference code to go to and as a search query
+  const getQueryCommands = (query: string): PaletteCommand[] => [
+    ...suggestReferenceCodes(referenceCodeIndex, query, 6).map((match) => ({
+      id: `goto-${match.id}`,
+      label: `Go to ${match.code}`,
+      detail: hierarchyIndex.nodes.get(match.id)?.title || undefined,
+      run: () => jumpToItem(match.id),
+    })),
+    {
+      id: "search",
+      label: `Search for "${query}"`,
+      run: () => handleSearch(query),
+    },
+  ];
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === "k") {
+        e.preventDefault();
+        setShowCommandPalette((prev) => !prev);
+        return;
+      }
+
+      const target = e.target as HTMLElement | null;
+      if (
+        showCommandPalette ||
+        showShortcuts ||
+        e.metaKey ||
+        e.ctrlKey ||
+        e.altKey ||
+        target?.closest("input, textarea, select, [contenteditable='true']")
+      ) {
+        return;
+      }
+
+      if (e.key === "?") {
+        e.preventDefault();
+        setShowShortcuts(true);
+      } else if (e.key === "]") {
+        e.preventDefault();
+        goToAdjacentArticle(1);
+      } else if (e.key === "[") {
+        e.preventDefault();
+        goToAdjacentArticle(-1);
+      }
+    };
+
+    // Re-registered every render so the handler sees the current selection
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
+
+  // The focused row, else the selected one if visible, else the first row
+  const rovingNavItem =
+    [focusedNavItem, selectedItem].find(
+      (id) =>
+        id !== null && visibleNavigationItems.some((item) => item.id === id)
+    ) ?? visibleNavigationItems[0]?.id;
+
+  // Rows of one tree level; position and size let assistive technology
+  // announce "3 of 7" for each treeitem
+  const renderNavigationItems = (nodes: HierarchyNode[], level: number = 0) => {
+    const visible = nodes.filter(shouldShowInNavigation);
+    return visible.map((item, index) =>
+      renderNavigationItem(item, level, index + 1, visible.length)
+    );
+  };
+
+  const renderNavigationItem = (
+    item: HierarchyNode,
+    level: number,
+    posInSet: number,
+    setSize: number
+  ) => {
+    const hasChildren = hasNavigationChildren(item);
     const isExpanded = navigationExpandedItems.has(item.id); // Use navigation state
     const isSelected = selectedItem === item.id;
+    // The children's group sits after the row rather than inside it, so the
+    // treeitem claims it with aria-owns
+    const groupId = `navigation-group-${item.id}`;
 
     return (
-      <div key={item.id}>
+      <div key={item.id} role="none">
         <div
-          className={`flex items-center px-3 py-2 cursor-pointer hover:bg-blue-50 transition-colors ${
+          role="treeitem"
+          aria-owns={hasChildren && isExpanded ? groupId : undefined}
+          aria-level={level + 1}
+          aria-posinset={posInSet}
+          aria-setsize={setSize}
+          aria-expanded={hasChildren ? isExpanded : undefined}
+          aria-selected={isSelected}
+          aria-label={formatNodeLabel(item)}
+          ref={(el) => {
+            if (el) {
+              navItemRefs.current.set(item.id, el);
+            } else {
+              navItemRefs.current.delete(item.id);
+            }
+          }}
+          tabIndex={item.id === rovingNavItem ? 0 : -1}
+          onKeyDown={(e) => handleNavigationKeyDown(e, item.id)}
+          onFocus={() => setFocusedNavItem(item.id)}
+          className={`group flex items-center px-3 py-2 cursor-pointer hover:bg-blue-50 transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-blue-500 ${
             isSelected ? "bg-blue-100 border-l-4 border-blue-600" : ""
           }`}
           style={{ paddingLeft: `${level * 16 + 12}px` }}
@@ -394,11 +1986,12 @@ const BuildingCodeViewer: React.FC<BuildingCodeViewerProps> = ({
               item.reference_code,
               item.title
             );
-            navigateToItem(item.id);
+            jumpToItem(item.id);
           }}
         >
           {hasChildren && (
             <div
+              aria-hidden="true"
               className="flex-shrink-0 p-1 rounded hover:bg-gray-200 transition-colors"
               onClick={(e) => toggleNavigationExpand(item.id, e)} // Use navigation toggle
             >
@@ -438,27 +2031,35 @@ const BuildingCodeViewer: React.FC<BuildingCodeViewerProps> = ({
               </span>
             </div>
           </div>
+          <SubtreeExportMenu
+            label={formatNodeLabel(item)}
+            onExport={(format) => exportSubtree(item, format)}
+          />
         </div>
 
         {hasChildren && isExpanded && (
-          <div>
-            {item.children!.map((child) =>
-              renderNavigationItem(child, level + 1)
-            )}
+          <div role="group" id={groupId}>
+            {renderNavigationItems(item.children!, level + 1)}
           </div>
         )}
       </div>
     );
   };
 
-  // Update renderContentItem to use contentExpandedItems
-  const renderContentItem = (item: HierarchyNode, level: number = 0) => {
+  // Update renderContentItem to use contentExpandedItems. Virtualized rows
+  // render headings without their children, which get rows of their own.
+  const renderContentItem = (
+    item: HierarchyNode,
+    level: number = 0,
+    withChildren: boolean = true
+  ) => {
     const hasChildren = item.children && item.children.length > 0;
     const isExpanded = contentExpandedItems.has(item.id); // Use content state
     const isHighlighted = selectedItem === item.id;
     const isHovered = hoveredItem === item.id;
     const typeStyles = getTypeStyles(item.content_type);
-    const references: Reference[] = (item as any).references || [];
+    const Heading = headingTag(item.content_type);
+    const references: Reference[] = item.references || [];
 
     const showHighlight =
       isHighlighted &&
@@ -486,21 +2087,26 @@ const BuildingCodeViewer: React.FC<BuildingCodeViewerProps> = ({
           >
             {(item.reference_code || item.title) && (
               <div className="flex flex-wrap items-center gap-2 mb-3">
-                {item.reference_code && (
-                  <span className={` px-2 py-1 rounded  transition-colors`}>
-                    {item.reference_code}
-                  </span>
-                )}
-                {item.title && (
-                  <h3 className={`${typeStyles.text}`}>
-                    {searchTerm
-                      ? highlightText(item.title, searchTerm)
-                      : item.title}
-                  </h3>
-                )}
+                <Heading className="flex flex-wrap items-center gap-2">
+                  {item.reference_code && (
+                    <span className={` px-2 py-1 rounded  transition-colors`}>
+                      {item.reference_code}
+                    </span>
+                  )}
+                  {item.title && (
+                    <span className={`${typeStyles.text}`}>
+                      {searchTerm
+                        ? highlightText(item.title, searchTerm)
+                        : item.title}
+                    </span>
+                  )}
+                </Heading>
+                <span className="ml-auto">{renderItemActions(item)}</span>
               </div>
             )}
 
+            {renderBacklinks(item)}
+
             {/* Always show children in content - no expansion check needed */}
             {hasChildren && (
               <div className="space-y-3">
@@ -531,31 +2137,41 @@ const BuildingCodeViewer: React.FC<BuildingCodeViewerProps> = ({
         >
           {(item.reference_code || item.title || item.content_text) && (
             <div className="flex flex-wrap items-center gap-2 mb-3">
-              {item.reference_code && (
-                <span className={` px-2 py-1 rounded  transition-colors`}>
-                  {item.reference_code}
-                </span>
-              )}
-              {item.title && (
-                <h3 className={`${typeStyles.text}`}>
-                  {searchTerm
-                    ? highlightText(item.title, searchTerm)
-                    : item.title}
-                </h3>
+              {(item.reference_code || item.title) && (
+                <Heading className="flex flex-wrap items-center gap-2">
+                  {item.reference_code && (
+                    <span className={` px-2 py-1 rounded  transition-colors`}>
+                      {item.reference_code}
+                    </span>
+                  )}
+                  {item.title && (
+                    <span className={`${typeStyles.text}`}>
+                      {searchTerm
+                        ? highlightText(item.title, searchTerm)
+                        : item.title}
+                    </span>
+                  )}
+                </Heading>
               )}
               {item.content_text && item.content_text !== item.title && (
                 <span className={`${typeStyles.text}`}>
                   {searchTerm
                     ? highlightText(item.content_text, searchTerm)
-                    : highlightReferences(item.content_text, references)}
+                    : highlightReferences(
+                        item.content_text,
+                        references,
+                        item.id
+                      )}
                 </span>
               )}
+              <span className="ml-auto">{renderItemActions(item)}</span>
             </div>
           )}
+          {renderBacklinks(item)}
         </div>
 
         {/* Always show children in content - remove expansion check */}
-        {hasChildren && item.content_type !== "article" && (
+        {withChildren && hasChildren && item.content_type !== "article" && (
           <div className="ml-4">
             {item.children!.map((child) => renderContentItem(child, level + 1))}
           </div>
@@ -564,8 +2180,9 @@ const BuildingCodeViewer: React.FC<BuildingCodeViewerProps> = ({
     );
   };
 
-  // Update navigateToItem to use contentExpandedItems
-  const navigateToItem = (id: number) => {
+  // Update navigateToItem to use contentExpandedItems. When scrollTop is given
+  // (history back/forward) the exact previous reading position is restored.
+  const navigateToItem = (id: number, scrollTop?: number) => {
     setSelectedItem(id);
 
     // Expand all parent nodes in CONTENT to ensure the item is visible
@@ -593,9 +2210,21 @@ const BuildingCodeViewer: React.FC<BuildingCodeViewerProps> = ({
     expandParents(data, id);
 
     // Scroll logic remains the same...
-    setTimeout(() => {
+    const scrollToElement = (rowScrolled: boolean) => {
       const element = contentRefs.current[id];
-      if (element && contentContainerRef.current) {
+      if (scrollTop !== undefined && contentContainerRef.current) {
+        contentContainerRef.current.scrollTo({ top: scrollTop });
+      } else if (!element && !rowScrolled) {
+        // Off-screen rows are not mounted: bring the row into the window
+        // first, then scroll precisely once it has rendered
+        const rowIndex = contentRows.rowIndexById.get(id);
+        if (rowIndex === undefined) {
+          console.warn(`Element with id ${id} not found in contentRefs`);
+          return;
+        }
+        virtualRows.scrollToIndex(rowIndex);
+        setTimeout(() => scrollToElement(true), 100);
+      } else if (element && contentContainerRef.current) {
         const container = contentContainerRef.current;
         const containerRect = container.getBoundingClientRect();
         const elementRect = element.getBoundingClientRect();
@@ -615,7 +2244,9 @@ const BuildingCodeViewer: React.FC<BuildingCodeViewerProps> = ({
       } else if (!element) {
         console.warn(`Element with id ${id} not found in contentRefs`);
       }
-    }, 200);
+    };
+
+    setTimeout(() => scrollToElement(false), 200);
   };
 
   // Helper function to render children within an article
@@ -624,7 +2255,7 @@ const BuildingCodeViewer: React.FC<BuildingCodeViewerProps> = ({
     const isExpanded = expandedItems.has(item.id);
     const isHighlighted = selectedItem === item.id;
     const isHovered = hoveredItem === item.id;
-    const references: Reference[] = (item as any).references || [];
+    const references: Reference[] = item.references || [];
 
     // Sentences get their own separate block with border
     if (item.content_type === "sentence") {
@@ -659,13 +2290,19 @@ const BuildingCodeViewer: React.FC<BuildingCodeViewerProps> = ({
                       <span className="break-words flex-1">
                         {searchTerm
                           ? highlightText(item.content_text, searchTerm)
-                          : highlightReferences(item.content_text, references)}
+                          : highlightReferences(
+                              item.content_text,
+                              references,
+                              item.id
+                            )}
                       </span>
                     )}
                   </div>
                 </div>
               )}
 
+              {renderBacklinks(item)}
+
               {/* Render all clauses and subclauses within this sentence block */}
               {hasChildren && (
                 <div className="mt-2 space-y-1">
@@ -674,6 +2311,8 @@ const BuildingCodeViewer: React.FC<BuildingCodeViewerProps> = ({
               )}
             </div>
 
+            {renderItemActions(item)}
+
             {/* Expand/collapse button for sentence */}
             {hasChildren && (
               <button
@@ -703,7 +2342,7 @@ const BuildingCodeViewer: React.FC<BuildingCodeViewerProps> = ({
           <div className="text-gray-700 leading-relaxed">
             {searchTerm
               ? highlightText(item.content_text, searchTerm)
-              : highlightReferences(item.content_text, references)}
+              : highlightReferences(item.content_text, references, item.id)}
           </div>
         )}
       </div>
@@ -716,7 +2355,7 @@ const BuildingCodeViewer: React.FC<BuildingCodeViewerProps> = ({
     const isExpanded = expandedItems.has(item.id);
     const isHighlighted = selectedItem === item.id;
     const isHovered = hoveredItem === item.id;
-    const references: Reference[] = (item as any).references || [];
+    const references: Reference[] = item.references || [];
 
     if (item.content_type === "clause") {
       return (
@@ -744,12 +2383,13 @@ const BuildingCodeViewer: React.FC<BuildingCodeViewerProps> = ({
             <span className="font-medium text-black shrink-0">
               {item.reference_code}
             </span>
-            <span className="text-black leading-relaxed">
+            <span className="text-black leading-relaxed flex-1">
               {item.title &&
                 (searchTerm
                   ? highlightText(item.title, searchTerm)
-                  : highlightReferences(item.title, references))}
+                  : highlightReferences(item.title, references, item.id))}
             </span>
+            {renderItemActions(item)}
           </div>
 
           {/* Render subclauses */}
@@ -790,12 +2430,17 @@ const BuildingCodeViewer: React.FC<BuildingCodeViewerProps> = ({
                 {item.reference_code}
               </span>
             )}
-            <span className="text-gray-700 leading-relaxed">
+            <span className="text-gray-700 leading-relaxed flex-1">
               {item.content_text &&
                 (searchTerm
                   ? highlightText(item.content_text, searchTerm)
-                  : highlightReferences(item.content_text, references))}
+                  : highlightReferences(
+                      item.content_text,
+                      references,
+                      item.id
+                    ))}
             </span>
+            {renderItemActions(item)}
           </div>
         </div>
       );
@@ -804,6 +2449,13 @@ const BuildingCodeViewer: React.FC<BuildingCodeViewerProps> = ({
     return null;
   };
 
+  viewerNavigation.current = {
+    navigationHistory,
+    labelForItem,
+    navigateToItem,
+    jumpToItem,
+  };
+
   return (
     <div className="h-screen flex flex-col bg-gradient-to-br from-gray-50 to-gray-100">
       {/* Header */}
@@ -830,25 +2482,84 @@ const BuildingCodeViewer: React.FC<BuildingCodeViewerProps> = ({
             </div>
 
             {/* Right side - Search bar */}
-            <div className="flex-1 max-w-2xl">
-              <div className="relative">
+            <div className="flex-1 max-w-3xl flex items-center gap-3">
+              <NavigationHistoryControls
+                history={navigationHistory}
+                onGo={(delta) => window.history.go(delta)}
+              />
+              <button
+                onClick={() => setShowSourcePane((prev) => !prev)}
+                className={`p-3 rounded-xl border transition-colors flex-shrink-0 ${
+                  showSourcePane
+                    ? "bg-blue-600 text-white border-blue-600"
+                    : "bg-white text-gray-700 border-gray-300 hover:border-blue-500"
+                }`}
+                title="Show original PDF page"
+                aria-label="Show original PDF page"
+              >
+                <FileText size={16} />
+              </button>
+              {documentId && (
+                <button
+                  onClick={openPrintView}
+                  className="p-3 rounded-xl border bg-white text-gray-700 border-gray-300 hover:border-blue-500 transition-colors flex-shrink-0"
+                  title="Print or save as PDF"
+                  aria-label="Print or save as PDF"
+                >
+                  <Printer size={16} />
+                </button>
+              )}
+              <button
+                onClick={() => setShowGlossary((prev) => !prev)}
+                className={`flex items-center gap-2 px-4 py-3 rounded-xl border text-sm font-medium transition-colors flex-shrink-0 ${
+                  showGlossary
+                    ? "bg-emerald-600 text-white border-emerald-600"
+                    : "bg-white text-gray-700 border-gray-300 hover:border-emerald-500"
+                }`}
+                title="Defined terms"
+              >
+                <BookOpen size={16} />
+                Glossary
+              </button>
+              {documentId && (
+                <button
+                  onClick={() => setShowNotes((prev) => !prev)}
+                  className={`flex items-center gap-2 px-4 py-3 rounded-xl border text-sm font-medium transition-colors flex-shrink-0 ${
+                    showNotes
+                      ? "bg-yellow-500 text-white border-yellow-500"
+                      : "bg-white text-gray-700 border-gray-300 hover:border-yellow-500"
+                  }`}
+                  title="Highlights and notes"
+                >
+                  <StickyNote size={16} />
+                  Notes
+                </button>
+              )}
+              <ProvisionJumpBox
+                index={referenceCodeIndex}
+                getTitle={(id) => {
+                  const node = hierarchyIndex.nodes.get(id);
+                  return node?.title || node?.content_text || null;
+                }}
+                onJump={jumpToItem}
+              />
+              <div className="relative flex-1">
                 <Search
                   className="absolute left-4 top-1/2 transform -translate-y-1/2 text-gray-400"
                   size={20}
                 />
                 <input
                   type="text"
-                  placeholder="Search by title, content, or reference code..."
+                  placeholder='Search, e.g. "exit stair" OR guard* type:sentence code:9.8.*'
                   className="w-full pl-12 pr-12 py-3 border text-black border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm bg-white shadow-sm transition-all"
+                  aria-label="Search this document"
                   value={searchTerm}
                   onChange={(e) => handleSearch(e.target.value)}
                 />
                 {searchTerm && (
                   <button
-                    onClick={() => {
-                      setSearchTerm("");
-                      setSearchResults([]);
-                    }}
+                    onClick={() => handleSearch("")}
+                    aria-label="Clear search"
                     className="absolute right-4 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600 transition-colors"
                   >
                     <X size={18} />
@@ -872,61 +2583,141 @@ const BuildingCodeViewer: React.FC<BuildingCodeViewerProps> = ({
                 <Search size={16} />
                 Search Results
                 <span className="bg-blue-600 text-white text-xs px-2 py-1 rounded-full ml-1">
-                  {searchResults.length}
+                  {filteredSearch.results.length}
                 </span>
               </h2>
+              <div
+                role="group"
+                aria-label="Search scope"
+                className="flex flex-wrap gap-1.5 mt-3"
+              >
+                {renderSearchChip(
+                  "Whole document",
+                  filteredSearch.documentCount,
+                  searchScope === null,
+                  () => setSearchScope(null)
+                )}
+                {filteredSearch.scopes.map((scope) =>
+                  renderSearchChip(
+                    formatNodeLabel(scope.node),
+                    scope.count,
+                    searchScope === scope.node.id,
+                    () => setSearchScope(scope.node.id),
+                    scope.node.id
+                  )
+                )}
+              </div>
+              <div
+                role="group"
+                aria-label="Result type"
+                className="flex flex-wrap gap-1.5 mt-2"
+              >
+                {SEARCH_TYPE_FILTERS.map((filter) =>
+                  renderSearchChip(
+                    filter.label,
+                    filteredSearch.typeCounts[filter.value],
+                    searchTypeFilter === filter.value,
+                    () => setSearchTypeFilter(filter.value),
+                    filter.value
+                  )
+                )}
+              </div>
             </div>
             <div className="overflow-y-auto h-full p-2">
-              {searchResults.map((result) => (
-                <div
-                  key={result.id}
-                  className={`flex items-center px-3 py-3 cursor-pointer hover:bg-blue-50 transition-colors rounded-lg mb-1 ${
-                    selectedItem === result.id
-                      ? "bg-blue-100 border-l-4 border-blue-600"
-                      : ""
-                  }`}
-                  onClick={() => navigateToItem(result.id)}
+              {filteredSearch.groups.map((group) => (
+                <section
+                  key={group.section?.id ?? "other"}
+                  aria-label={
+                    group.section ? formatNodeLabel(group.section) : "Other"
+                  }
+                  className="mb-3"
                 >
-                  <div className="flex-1 min-w-0">
-                    <div className="text-sm font-medium text-gray-900 line-clamp-1">
-                      {result.reference_code && (
-                        <span className="font-mono text-xs text-blue-600 mr-2">
-                          {result.reference_code}
-                        </span>
-                      )}
-                      {result.title || result.content_text?.substring(0, 60)}
-                    </div>
-                    {result.content_text &&
-                      result.content_text !== result.title && (
-                        <div className="text-xs text-gray-600 line-clamp-2 mt-1">
-                          {searchTerm
-                            ? highlightText(
-                                result.content_text.substring(0, 100) + "...",
-                                searchTerm
-                              )
-                            : result.content_text.substring(0, 100) + "..."}
+                  <h3 className="px-3 pt-2 pb-1 text-xs font-semibold text-gray-500 uppercase tracking-wider truncate">
+                    {group.section ? formatNodeLabel(group.section) : "Other"}
+                    <span className="ml-1 font-normal normal-case">
+                      ({group.results.length})
+                    </span>
+                  </h3>
+                  {group.results.map((result) => (
+                    <div
+                      key={result.id}
+                      className={`flex items-center px-3 py-3 cursor-pointer hover:bg-blue-50 transition-colors rounded-lg mb-1 ${
+                        selectedItem === result.id
+                          ? "bg-blue-100 border-l-4 border-blue-600"
+                          : ""
+                      }`}
+                      onClick={() => openSearchResult(result.id)}
+                    >
+                      <div className="flex-1 min-w-0">
+                        <div className="text-sm font-medium text-gray-900 line-clamp-1">
+                          {result.reference_code && (
+                            <span className="font-mono text-xs text-blue-600 mr-2">
+                              {result.reference_code}
+                            </span>
+                          )}
+                          {result.title ||
+                            result.content_text?.substring(0, 60)}
                         </div>
-                      )}
-                    <div className="text-xs text-gray-400 mt-1 capitalize">
-                      {result.content_type}
+                        {result.content_text &&
+                          result.content_text !== result.title && (
+                            <div className="text-xs text-gray-600 line-clamp-2 mt-1">
+                              {searchSnippets.get(result.id)
+                                ? renderSnippet(searchSnippets.get(result.id)!)
+                                : searchTerm
+                                ? highlightText(
+                                    result.content_text.substring(0, 100) +
+                                      "...",
+                                    searchTerm
+                                  )
+                                : result.content_text.substring(0, 100) + "..."}
+                            </div>
+                          )}
+                        <div className="text-xs text-gray-400 mt-1 capitalize">
+                          {result.content_type}
+                        </div>
+                      </div>
                     </div>
-                  </div>
-                </div>
+                  ))}
+                </section>
               ))}
+              {(filteredSearch.results.length > resultLimit ||
+                serverSearch.page < serverSearch.totalPages) && (
+                <button
+                  onClick={showMoreResults}
+                  disabled={serverSearch.loading}
+                  className="w-full px-3 py-2 text-sm font-medium text-blue-700 hover:bg-blue-50 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  Show more results
+                </button>
+              )}
+              {serverSearch.loading && (
+                <p className="px-3 py-2 text-xs text-gray-500">
+                  Searching the full document…
+                </p>
+              )}
+              {serverSearch.error && (
+                <p className="px-3 py-2 text-xs text-amber-700">
+                  {serverSearch.error}
+                </p>
+              )}
             </div>
           </aside>
         )}
 
         {/* Navigation Sidebar - Hidden in search mode */}
-        {!isSearchMode && (
+        {!isSearchMode && showNavigation && (
           <aside className="w-1/4 bg-white rounded-2xl shadow-sm border border-gray-200 overflow-hidden flex-shrink-0">
             <div className="bg-gradient-to-r from-gray-50 to-white px-5 py-4 border-b border-gray-200">
               <h2 className="text-sm font-bold text-gray-700 uppercase tracking-wider">
                 Navigation
               </h2>
             </div>
-            <div className="overflow-y-auto h-full p-2">
-              {data.map((item) => renderNavigationItem(item))}
+            <div
+              role="tree"
+              aria-label="Document navigation"
+              className="overflow-y-auto h-full p-2"
+            >
+              {renderNavigationItems(data)}
             </div>
           </aside>
         )}
@@ -934,10 +2725,22 @@ const BuildingCodeViewer: React.FC<BuildingCodeViewerProps> = ({
         {/* Content Area - Adjusts width based on mode */}
         <main
           className={`bg-white rounded-2xl shadow-sm border border-gray-200 overflow-hidden ${
-            isSearchMode ? "flex-1" : "w-3/4"
+            isSearchMode ||
+            !showNavigation ||
+            showGlossary ||
+            showNotes ||
+            showSourcePane ||
+            pinnedPreviews.length > 0
+              ? "flex-1"
+              : "w-3/4"
           }`}
         >
-          <div ref={contentContainerRef} className="h-full overflow-y-auto">
+          <div
+            ref={contentContainerRef}
+            className="h-full overflow-y-auto"
+            onScroll={handleContentScroll}
+            onMouseUp={handleTextSelection}
+          >
             <div
               className={`px-8 py-6 ${isSearchMode ? "max-w-4xl mx-auto" : ""}`}
             >
@@ -952,23 +2755,234 @@ const BuildingCodeViewer: React.FC<BuildingCodeViewerProps> = ({
                 </div>
               ) : (
                 <div>
+                  {offlineCopy && (
+                    <div className="mb-6 flex items-center justify-between gap-4 rounded-xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-900">
+                      <div className="flex items-center gap-2">
+                        <WifiOff size={16} className="flex-shrink-0" />
+                        <span>
+                          Reading the offline copy saved on{" "}
+                          {new Date(offlineCopy.savedAt).toLocaleDateString()}
+                          {offlineCopy.contentUpdatedAt && (
+                            <>
+                              {" "}
+                              (content last updated{" "}
+                              {new Date(
+                                offlineCopy.contentUpdatedAt
+                              ).toLocaleDateString()}
+                              )
+                            </>
+                          )}
+                          .{" "}
+                          {isOnline
+                            ? "You are back online."
+                            : "It may be out of date."}
+                        </span>
+                      </div>
+                      {isOnline && (
+                        <button
+                          onClick={fetchData}
+                          className="flex items-center gap-1 font-medium text-amber-900 hover:text-black flex-shrink-0"
+                        >
+                          <RefreshCw size={14} />
+                          Refresh
+                        </button>
+                      )}
+                    </div>
+                  )}
+                  {contentLoadFailed && (
+                    <div className="mb-6 flex items-center justify-between gap-4 rounded-xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-900">
+                      <span>
+                        Only part of this document could be loaded. Search still
+                        covers all of it.
+                      </span>
+                      <button
+                        onClick={fetchData}
+                        className="flex items-center gap-1 font-medium text-amber-900 hover:text-black flex-shrink-0"
+                      >
+                        <RefreshCw size={14} />
+                        Retry
+                      </button>
+                    </div>
+                  )}
+                  {unresolvedReference && (
+                    <div className="mb-6 flex items-start justify-between gap-4 rounded-xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-900">
+                      <div>
+                        No provision matches{" "}
+                        <span className="font-mono font-semibold">
+                          {unresolvedReference.code}
+                        </span>
+                        .
+                        {unresolvedReference.closest && (
+                          <>
+                            {" "}
+                            Closest match:{" "}
+                            <button
+                              onClick={() => {
+                                jumpToItem(unresolvedReference.closest!.id);
+                                setUnresolvedReference(null);
+                              }}
+                              className="font-mono font-semibold text-blue-700 underline hover:text-blue-900"
+                            >
+                              {unresolvedReference.closest.code}
+                            </button>{" "}
+                            {labelForItem(unresolvedReference.closest.id)
+                              .replace(unresolvedReference.closest.code, "")
+                              .trim()}
+                          </>
+                        )}
+                      </div>
+                      <button
+                        onClick={() => setUnresolvedReference(null)}
+                        className="text-amber-700 hover:text-amber-900 transition-colors flex-shrink-0"
+                        aria-label="Dismiss"
+                      >
+                        <X size={16} />
+                      </button>
+                    </div>
+                  )}
                   {isSearchMode && (
                     <div className="mb-6 pb-4 border-b border-gray-200">
                       <h2 className="text-lg font-semibold text-gray-900">
                         Search Results for "{searchTerm}"
                       </h2>
                       <p className="text-sm text-gray-600 mt-1">
-                        Found {searchResults.length} matching items
+                        Found {filteredSearch.results.length} matching items
                       </p>
                     </div>
                   )}
-                  {data.map((item) => renderContentItem(item))}
+                  <div
+                    ref={contentListRef}
+                    className="relative"
+                    style={{ height: virtualRows.totalHeight }}
+                  >
+                    {virtualRows.rows.map(({ index, key, top }) => {
+                      const row = contentRows.rows[index];
+                      return (
+                        <div
+                          key={key}
+                          ref={virtualRows.measureRef(key)}
+                          className="absolute left-0 right-0"
+                          style={{ top, paddingLeft: row.level * 16 }}
+                        >
+                          {renderContentItem(row.node, row.level, false)}
+                        </div>
+                      );
+                    })}
+                  </div>
                 </div>
               )}
             </div>
           </div>
         </main>
+
+        {showSourcePane && (
+          <PdfPagePane
+            documentId={documentId}
+            fileName={documentInfo?.file_name}
+            item={
+              sourceItem !== null
+                ? hierarchyIndex.nodes.get(sourceItem) || null
+                : null
+            }
+            nodes={hierarchyIndex.nodes}
+            onSelect={jumpToItem}
+            onClose={() => setShowSourcePane(false)}
+          />
+        )}
+
+        {pinnedPreviews.length > 0 && (
+          <PinnedPreviewsPanel
+            previews={pinnedPreviews}
+            onNavigate={jumpToItem}
+            onUnpin={(id) =>
+              setPinnedPreviews((prev) =>
+                prev.filter((preview) => preview.id !== id)
+              )
+            }
+            onClose={() => setPinnedPreviews([])}
+          />
+        )}
+
+        {showNotes && (
+          <AnnotationsPanel
+            items={panelAnnotations}
+            editingId={editingNote}
+            onEdit={setEditingNote}
+            onSave={(annotation) => {
+              annotationState
+                .save(annotation)
+                .then(() => setEditingNote(null))
+                .catch((error) =>
+                  console.error("Error saving annotation:", error)
+                );
+            }}
+            onDelete={(id) => {
+              annotationState
+                .remove(id)
+                .catch((error) =>
+                  console.error("Error deleting annotation:", error)
+                );
+            }}
+            onNavigate={jumpToItem}
+            onClose={() => {
+              setShowNotes(false);
+              setEditingNote(null);
+            }}
+          >
+            <AnnotationLayers
+              layers={layerViews}
+              error={layerError}
+              onImport={importLayer}
+              onExport={exportAnnotations}
+              onToggle={(id, visible) =>
+                updateLayers(() => annotationLayers.setVisible(id, visible))
+              }
+              onRemove={(id) => updateLayers(() => annotationLayers.remove(id))}
+              onNavigate={jumpToItem}
+            />
+          </AnnotationsPanel>
+        )}
+
+        {showGlossary && (
+          <GlossaryPanel
+            entries={definitionIndex.entries}
+            selectedItem={selectedItem}
+            onNavigate={jumpToItem}
+            onClose={() => setShowGlossary(false)}
+          />
+        )}
+      </div>
+
+      <div
+        role="status"
+        aria-live="polite"
+        aria-atomic="true"
+        className="sr-only"
+      >
+        {announcement}
       </div>
+
+      {showCommandPalette && (
+        <CommandPalette
+          commands={paletteCommands}
+          getQueryCommands={getQueryCommands}
+          onClose={() => setShowCommandPalette(false)}
+        />
+      )}
+
+      {showShortcuts && (
+        <KeyboardShortcutsDialog
+          groups={SHORTCUT_GROUPS}
+          onClose={() => setShowShortcuts(false)}
+        />
+      )}
+
+      {selectionDraft && (
+        <AnnotationToolbar
+          position={selectionDraft.position}
+          onHighlight={createAnnotation}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,96 @@
+// src/components/CitationMenu.tsx
+import React, { useEffect, useRef, useState } from "react";
+import { Check, Quote } from "lucide-react";
+import { CITATION_STYLES, CitationStyle } from "@/utils/citations";
+
+interface CitationMenuProps {
+  // Computed when the menu opens, not for every rendered provision
+  getCitation: (style: CitationStyle) => string;
+}
+
+const COPIED_RESET_DELAY = 1500;
+
+// "Copy citation" action with a choice of citation styles
+const CitationMenu: React.FC<CitationMenuProps> = ({ getCitation }) => {
+  const [open, setOpen] = useState(false);
+  const [copied, setCopied] = useState<CitationStyle | null>(null);
+  const menuRef = useRef<HTMLSpanElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [open]);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => {
+      setCopied(null);
+      setOpen(false);
+    }, COPIED_RESET_DELAY);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const copy = async (style: CitationStyle) => {
+    try {
+      await navigator.clipboard.writeText(getCitation(style));
+      setCopied(style);
+    } catch (error) {
+      console.error("Failed to copy citation:", error);
+    }
+  };
+
+  return (
+    <span
+      ref={menuRef}
+      className="relative flex-shrink-0"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <button
+        onClick={() => setOpen((prev) => !prev)}
+        className="p-1 rounded text-gray-300 hover:text-gray-600 transition-colors"
+        title="Copy citation"
+        aria-label="Copy citation"
+        aria-haspopup="menu"
+        aria-expanded={open}
+      >
+        <Quote size={16} />
+      </button>
+
+      {open && (
+        <span
+          role="menu"
+          data-annotation-ignore
+          className="absolute right-0 top-full z-30 mt-1 block w-96 rounded-lg border border-gray-200 bg-white py-1 text-left shadow-lg"
+        >
+          {CITATION_STYLES.map(({ style, label }) => (
+            <button
+              key={style}
+              role="menuitem"
+              onClick={() => copy(style)}
+              className="block w-full px-3 py-2 text-left hover:bg-gray-100"
+            >
+              <span className="flex items-center justify-between text-xs font-semibold text-gray-700">
+                {label}
+                {copied === style && (
+                  <span className="flex items-center gap-1 font-normal text-green-600">
+                    <Check size={12} />
+                    Copied
+                  </span>
+                )}
+              </span>
+              <span className="block truncate text-xs text-gray-500 font-mono">
+                {getCitation(style)}
+              </span>
+            </button>
+          ))}
+        </span>
+      )}
+    </span>
+  );
+};
+
+export default CitationMenu;
@@ -0,0 +1,155 @@
+// src/components/CommandPalette.tsx
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Command, Search } from "lucide-react";
+
+export interface PaletteCommand {
+  id: string;
+  label: string;
+  // Secondary text, e.g. a provision title
+  detail?: string;
+  shortcut?: string;
+  run: () => void;
+}
+
+interface CommandPaletteProps {
+  commands: PaletteCommand[];
+  // Commands that depend on what was typed, listed before the fixed ones
+  getQueryCommands: (query: string) => PaletteCommand[];
+  onClose: () => void;
+}
+
+// Ctrl/Cmd+K palette: type to filter commands or to go to a provision
+const CommandPalette: React.FC<CommandPaletteProps> = ({
+  commands,
+  getQueryCommands,
+  onClose,
+}) => {
+  const [query, setQuery] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  const results = useMemo(() => {
+    const trimmed = query.trim().toLowerCase();
+    const matching = trimmed
+      ? commands.filter((command) =>
+          command.label.toLowerCase().includes(trimmed)
+        )
+      : commands;
+    return [...(trimmed ? getQueryCommands(query.trim()) : []), ...matching];
+  }, [commands, getQueryCommands, query]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query]);
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex]);
+
+  const run = (command: PaletteCommand) => {
+    onClose();
+    command.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActiveIndex((prev) => Math.min(prev + 1, results.length - 1));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActiveIndex((prev) => Math.max(prev - 1, 0));
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      if (results[activeIndex]) run(results[activeIndex]);
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center bg-black/30 pt-[15vh]"
+      onMouseDown={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Command palette"
+        className="w-full max-w-xl overflow-hidden rounded-2xl border border-gray-200 bg-white shadow-2xl"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-3 border-b border-gray-200 px-4">
+          <Search size={18} className="text-gray-400" />
+          <input
+            autoFocus
+            role="combobox"
+            aria-expanded="true"
+            aria-controls="command-palette-list"
+            aria-activedescendant={
+              results[activeIndex]
+                ? `command-${results[activeIndex].id}`
+                : undefined
+            }
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Type a command, a reference code or search text..."
+            className="flex-1 py-4 text-sm text-black outline-none"
+          />
+          <kbd className="rounded border border-gray-300 px-1.5 text-xs text-gray-500">
+            Esc
+          </kbd>
+        </div>
+
+        <ul
+          ref={listRef}
+          id="command-palette-list"
+          role="listbox"
+          className="max-h-80 overflow-y-auto py-2"
+        >
+          {results.length === 0 && (
+            <li className="px-4 py-3 text-sm text-gray-500">
+              No matching commands
+            </li>
+          )}
+          {results.map((command, i) => (
+            <li
+              key={command.id}
+              id={`command-${command.id}`}
+              data-index={i}
+              role="option"
+              aria-selected={i === activeIndex}
+              onMouseEnter={() => setActiveIndex(i)}
+              onClick={() => run(command)}
+              className={`flex cursor-pointer items-center justify-between gap-4 px-4 py-2 text-sm ${
+                i === activeIndex ? "bg-blue-50 text-blue-900" : "text-gray-800"
+              }`}
+            >
+              <span className="min-w-0 truncate">
+                {command.label}
+                {command.detail && (
+                  <span className="ml-2 text-gray-500">{command.detail}</span>
+                )}
+              </span>
+              {command.shortcut && (
+                <kbd className="flex-shrink-0 rounded border border-gray-300 px-1.5 text-xs text-gray-500">
+                  {command.shortcut}
+                </kbd>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex items-center gap-2 border-t border-gray-200 px-4 py-2 text-xs text-gray-500">
+          <Command size={12} />
+          Press ? anywhere for all keyboard shortcuts
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
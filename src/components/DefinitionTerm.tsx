@@ -0,0 +1,75 @@
+// src/components/DefinitionTerm.tsx
+import React, { useState } from "react";
+import { BookOpen } from "lucide-react";
+import { DefinitionEntry } from "@/utils/definitions";
+
+interface DefinitionTermProps {
+  text: string;
+  entry: DefinitionEntry;
+  onNavigate: (id: number) => void;
+  // Rendered in place of text, e.g. with highlights applied
+  children?: React.ReactNode;
+}
+
+// Inline occurrence of a defined term with a hover/focus popover
+const DefinitionTerm: React.FC<DefinitionTermProps> = ({
+  text,
+  entry,
+  onNavigate,
+  children,
+}) => {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <span
+      className="relative inline"
+      onMouseEnter={() => setOpen(true)}
+      onMouseLeave={() => setOpen(false)}
+      onFocus={() => setOpen(true)}
+      onBlur={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+          setOpen(false);
+        }
+      }}
+    >
+      <span
+        tabIndex={0}
+        className="underline decoration-dotted decoration-emerald-600 underline-offset-2 cursor-help italic"
+        onKeyDown={(e) => {
+          if (e.key === "Escape") setOpen(false);
+        }}
+      >
+        {children ?? text}
+      </span>
+
+      {open && (
+        <span
+          role="tooltip"
+          data-annotation-ignore
+          className="absolute left-0 top-full z-30 mt-1 block w-80 rounded-lg border border-gray-200 bg-white p-3 text-left text-sm not-italic text-gray-700 shadow-lg"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <span className="mb-1 flex items-center gap-2 font-semibold text-gray-900">
+            <BookOpen size={14} className="text-emerald-600" />
+            {entry.term}
+          </span>
+          <span className="block leading-relaxed line-clamp-6">
+            {entry.definition}
+          </span>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              setOpen(false);
+              onNavigate(entry.id);
+            }}
+            className="mt-2 text-xs font-medium text-blue-600 hover:text-blue-800"
+          >
+            Go to definition
+          </button>
+        </span>
+      )}
+    </span>
+  );
+};
+
+export default DefinitionTerm;
@@ -0,0 +1,293 @@
+// src/components/EditionDiffView.tsx
+import React, { useMemo, useState } from "react";
+import { Columns, AlignLeft } from "lucide-react";
+import {
+  ChangeStatus,
+  DiffToken,
+  EditionChange,
+  EditionDiff,
+  EditionNode,
+} from "@/utils/editionDiff";
+
+interface EditionDiffViewProps {
+  diff: EditionDiff;
+  baseLabel: string;
+  targetLabel: string;
+}
+
+const PAGE_SIZE = 100;
+
+const STATUS_STYLES: Record<ChangeStatus, string> = {
+  added: "bg-green-100 text-green-800",
+  removed: "bg-red-100 text-red-800",
+  moved: "bg-amber-100 text-amber-800",
+  modified: "bg-blue-100 text-blue-800",
+};
+
+const STATUSES: ChangeStatus[] = ["added", "removed", "moved", "modified"];
+
+const renderTokens = (
+  tokens: DiffToken[],
+  side: "inline" | "base" | "target"
+) =>
+  tokens.map((token, i) => {
+    if (token.type === "equal") {
+      return <span key={i}>{token.text}</span>;
+    }
+    if (token.type === "delete") {
+      return side === "target" ? null : (
+        <del key={i} className="bg-red-100 text-red-800 line-through">
+          {token.text}
+        </del>
+      );
+    }
+    return side === "base" ? null : (
+      <ins key={i} className="bg-green-100 text-green-800 no-underline">
+        {token.text}
+      </ins>
+    );
+  });
+
+const NodeHeading: React.FC<{ node: EditionNode }> = ({ node }) => (
+  <div className="text-xs text-gray-500 mb-1">
+    <span className="font-mono text-gray-700 mr-2">{node.code || "—"}</span>
+    <span className="capitalize">{node.content_type}</span>
+  </div>
+);
+
+const EditionDiffView: React.FC<EditionDiffViewProps> = ({
+  diff,
+  baseLabel,
+  targetLabel,
+}) => {
+  const [mode, setMode] = useState<"inline" | "split">("inline");
+  const [statuses, setStatuses] = useState<Set<ChangeStatus>>(
+    new Set(STATUSES)
+  );
+  const [part, setPart] = useState<string>("all");
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  const visibleChanges = useMemo(
+    () =>
+      diff.changes.filter(
+        (change) =>
+          statuses.has(change.status) &&
+          (part === "all" || (change.target || change.base)!.part === part)
+      ),
+    [diff, statuses, part]
+  );
+
+  const totals = useMemo(() => {
+    const counts: Record<ChangeStatus, number> = {
+      added: 0,
+      removed: 0,
+      moved: 0,
+      modified: 0,
+    };
+    diff.changes.forEach((change) => counts[change.status]++);
+    return counts;
+  }, [diff]);
+
+  const toggleStatus = (status: ChangeStatus) => {
+    const next = new Set(statuses);
+    if (next.has(status)) {
+      next.delete(status);
+    } else {
+      next.add(status);
+    }
+    setStatuses(next);
+    setVisibleCount(PAGE_SIZE);
+  };
+
+  const renderChange = (change: EditionChange, index: number) => {
+    const node = (change.target || change.base)!;
+    const moved =
+      change.status === "moved" && change.base && change.target
+        ? `${change.base.code || "—"} → ${change.target.code || "—"}`
+        : null;
+
+    return (
+      <div key={index} className="border-b border-gray-100 py-4">
+        <div className="flex items-center gap-3 mb-2">
+          <span
+            className={`text-xs font-medium px-2 py-0.5 rounded capitalize ${
+              STATUS_STYLES[change.status]
+            }`}
+          >
+            {change.status}
+          </span>
+          <span className="font-mono text-sm text-gray-800">
+            {moved || node.code || "—"}
+          </span>
+          {node.title && (
+            <span className="text-sm text-gray-600 truncate">{node.title}</span>
+          )}
+        </div>
+
+        {mode === "inline" ? (
+          <div className="text-sm text-gray-800 leading-relaxed">
+            {change.status === "added" && (
+              <ins className="bg-green-100 text-green-800 no-underline">
+                {change.target!.text}
+              </ins>
+            )}
+            {change.status === "removed" && (
+              <del className="bg-red-100 text-red-800">{change.base!.text}</del>
+            )}
+            {(change.status === "modified" || change.status === "moved") &&
+              renderTokens(change.tokens, "inline")}
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-4 text-sm text-gray-800 leading-relaxed">
+            <div className="rounded-lg bg-gray-50 p-3">
+              {change.base ? (
+                <>
+                  <NodeHeading node={change.base} />
+                  {change.status === "removed"
+                    ? change.base.text
+                    : renderTokens(change.tokens, "base")}
+                </>
+              ) : (
+                <span className="text-gray-400 italic">Not present</span>
+              )}
+            </div>
+            <div className="rounded-lg bg-gray-50 p-3">
+              {change.target ? (
+                <>
+                  <NodeHeading node={change.target} />
+                  {change.status === "added"
+                    ? change.target.text
+                    : renderTokens(change.tokens, "target")}
+                </>
+              ) : (
+                <span className="text-gray-400 italic">Not present</span>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-col lg:flex-row gap-8">
+      {/* Summary per Part */}
+      <div className="lg:w-1/3">
+        <div className="bg-white border border-gray-200 rounded-lg">
+          <div className="p-6 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-black">Summary</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              {diff.changes.length} changes, {diff.unchanged} unchanged
+            </p>
+          </div>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-gray-500 uppercase">
+                <th className="text-left font-medium px-6 py-2">Part</th>
+                <th className="font-medium px-1 py-2 text-green-700">+</th>
+                <th className="font-medium px-1 py-2 text-red-700">−</th>
+                <th className="font-medium px-1 py-2 text-amber-700">↔</th>
+                <th className="font-medium px-1 py-2 text-blue-700">~</th>
+              </tr>
+            </thead>
+            <tbody>
+              {diff.summary.map((row) => (
+                <tr
+                  key={row.part}
+                  onClick={() => {
+                    setPart(part === row.part ? "all" : row.part);
+                    setVisibleCount(PAGE_SIZE);
+                  }}
+                  className={`cursor-pointer border-t border-gray-100 hover:bg-gray-50 ${
+                    part === row.part ? "bg-blue-50" : ""
+                  }`}
+                >
+                  <td className="px-6 py-2 text-black">{row.part}</td>
+                  <td className="text-center text-gray-700">{row.added}</td>
+                  <td className="text-center text-gray-700">{row.removed}</td>
+                  <td className="text-center text-gray-700">{row.moved}</td>
+                  <td className="text-center text-gray-700">{row.modified}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Changes */}
+      <div className="lg:w-2/3">
+        <div className="bg-white border border-gray-200 rounded-lg">
+          <div className="p-6 border-b border-gray-200 flex flex-wrap items-center justify-between gap-4">
+            <div className="flex flex-wrap gap-2">
+              {STATUSES.map((status) => (
+                <button
+                  key={status}
+                  onClick={() => toggleStatus(status)}
+                  className={`px-3 py-2 rounded-full text-sm font-medium transition-all border cursor-pointer capitalize ${
+                    statuses.has(status)
+                      ? "bg-black text-white border-black"
+                      : "bg-white text-black border-gray-300 hover:border-black"
+                  }`}
+                >
+                  {status} ({totals[status]})
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center gap-1 text-gray-600">
+              <button
+                onClick={() => setMode("inline")}
+                className={`p-2 rounded ${
+                  mode === "inline" ? "bg-gray-200 text-black" : ""
+                }`}
+                title="Inline"
+                aria-label="Inline view"
+              >
+                <AlignLeft size={16} />
+              </button>
+              <button
+                onClick={() => setMode("split")}
+                className={`p-2 rounded ${
+                  mode === "split" ? "bg-gray-200 text-black" : ""
+                }`}
+                title="Two columns"
+                aria-label="Two-column view"
+              >
+                <Columns size={16} />
+              </button>
+            </div>
+          </div>
+
+          {mode === "split" && (
+            <div className="grid grid-cols-2 gap-4 px-6 pt-4 text-xs font-semibold uppercase tracking-wider text-gray-500">
+              <div>{baseLabel}</div>
+              <div>{targetLabel}</div>
+            </div>
+          )}
+
+          <div className="px-6">
+            {visibleChanges.length === 0 ? (
+              <p className="py-12 text-center text-gray-600">
+                No changes match the selected filters.
+              </p>
+            ) : (
+              visibleChanges.slice(0, visibleCount).map(renderChange)
+            )}
+          </div>
+
+          {visibleChanges.length > visibleCount && (
+            <div className="p-6 text-center">
+              <button
+                onClick={() => setVisibleCount((count) => count + PAGE_SIZE)}
+                className="px-4 py-2 border text-white bg-black rounded text-sm"
+              >
+                Show more ({visibleChanges.length - visibleCount} remaining)
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EditionDiffView;
@@ -0,0 +1,102 @@
+// src/components/GlossaryPanel.tsx
+import React, { useMemo, useState } from "react";
+import { BookOpen, X } from "lucide-react";
+import { DefinitionEntry } from "@/utils/definitions";
+
+interface GlossaryPanelProps {
+  entries: DefinitionEntry[];
+  selectedItem: number | null;
+  onNavigate: (id: number) => void;
+  onClose: () => void;
+}
+
+const GlossaryPanel: React.FC<GlossaryPanelProps> = ({
+  entries,
+  selectedItem,
+  onNavigate,
+  onClose,
+}) => {
+  const [filter, setFilter] = useState("");
+
+  const visibleEntries = useMemo(() => {
+    const needle = filter.trim().toLowerCase();
+    if (!needle) return entries;
+    return entries.filter((entry) => entry.term.toLowerCase().includes(needle));
+  }, [entries, filter]);
+
+  // Group alphabetically by first letter
+  const groups = useMemo(() => {
+    const grouped: { [letter: string]: DefinitionEntry[] } = {};
+    visibleEntries.forEach((entry) => {
+      const letter = entry.term.charAt(0).toUpperCase();
+      if (!grouped[letter]) grouped[letter] = [];
+      grouped[letter].push(entry);
+    });
+    return Object.entries(grouped);
+  }, [visibleEntries]);
+
+  return (
+    <aside className="w-1/4 bg-white rounded-2xl shadow-sm border border-gray-200 overflow-hidden flex-shrink-0 flex flex-col">
+      <div className="bg-gradient-to-r from-emerald-50 to-white px-5 py-4 border-b border-gray-200 flex items-center justify-between">
+        <h2 className="text-sm font-bold text-gray-700 uppercase tracking-wider flex items-center gap-2">
+          <BookOpen size={16} />
+          Glossary
+          <span className="bg-emerald-600 text-white text-xs px-2 py-1 rounded-full ml-1">
+            {entries.length}
+          </span>
+        </h2>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-gray-600 transition-colors"
+          aria-label="Close glossary"
+        >
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="p-3 border-b border-gray-100">
+        <input
+          type="text"
+          placeholder="Filter terms..."
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-black"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+        />
+      </div>
+
+      <div className="overflow-y-auto flex-1 p-2">
+        {entries.length === 0 ? (
+          <p className="text-sm text-gray-500 p-3">
+            This document has no defined terms.
+          </p>
+        ) : (
+          groups.map(([letter, items]) => (
+            <div key={letter} className="mb-3">
+              <div className="px-3 py-1 text-xs font-bold text-gray-400">
+                {letter}
+              </div>
+              {items.map((entry) => (
+                <button
+                  key={entry.id}
+                  onClick={() => onNavigate(entry.id)}
+                  className={`block w-full text-left px-3 py-2 rounded-lg hover:bg-emerald-50 transition-colors ${
+                    selectedItem === entry.id ? "bg-emerald-100" : ""
+                  }`}
+                >
+                  <div className="text-sm font-medium text-gray-900">
+                    {entry.term}
+                  </div>
+                  <div className="text-xs text-gray-600 line-clamp-2 mt-0.5">
+                    {entry.definition}
+                  </div>
+                </button>
+              ))}
+            </div>
+          ))
+        )}
+      </div>
+    </aside>
+  );
+};
+
+export default GlossaryPanel;
@@ -1,13 +1,13 @@
 // src/components/Header.tsx
 import React from "react";
-import { User, Building } from "lucide-react";
+import { User, Building, Bookmark } from "lucide-react";
 import { useRouter } from "next/router";
 
 const Header: React.FC = () => {
   const router = useRouter();
 
   return (
-    <header className="bg-white shadow-sm border-b border-gray-100">
+    <header className="bg-white shadow-sm border-b border-gray-100 print:hidden">
       <div className="max-w-8xl mx-auto px-8 py-4 flex items-center justify-between">
         {/* Left Section - Logo & Nav */}
         <div className="flex items-center space-x-12">
@@ -35,6 +35,19 @@ const Header: React.FC = () => {
             >
               Library
             </button>
+            <button
+              onClick={() => router.push("/bookmarks")}
+              className="relative flex items-center gap-2 px-5 py-2 font-semibold text-gray-800 
+               rounded-full border border-gray-200 
+               overflow-hidden transition-all duration-300
+               hover:text-white hover:border-transparent
+               hover:bg-gradient-to-r hover:from-indigo-600 hover:to-blue-500
+               shadow-[0_0_15px_rgba(99,102,241,0.3)]
+               hover:shadow-[0_0_25px_rgba(99,102,241,0.6)]"
+            >
+              <Bookmark className="h-4 w-4" />
+              Bookmarks
+            </button>
           </nav>
         </div>
 
@@ -0,0 +1,95 @@
+// src/components/KeyboardShortcutsDialog.tsx
+import React, { useEffect } from "react";
+import { Keyboard, X } from "lucide-react";
+
+export interface ShortcutGroup {
+  title: string;
+  shortcuts: { keys: string[]; description: string }[];
+}
+
+interface KeyboardShortcutsDialogProps {
+  groups: ShortcutGroup[];
+  onClose: () => void;
+}
+
+// "?" overlay listing every keyboard shortcut of the viewer
+const KeyboardShortcutsDialog: React.FC<KeyboardShortcutsDialogProps> = ({
+  groups,
+  onClose,
+}) => {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape" || e.key === "?") {
+        e.preventDefault();
+        onClose();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/30"
+      onMouseDown={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="keyboard-shortcuts-title"
+        className="w-full max-w-2xl rounded-2xl border border-gray-200 bg-white p-6 shadow-2xl"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <div className="mb-4 flex items-center justify-between">
+          <h2
+            id="keyboard-shortcuts-title"
+            className="flex items-center gap-2 text-lg font-semibold text-gray-900"
+          >
+            <Keyboard size={20} />
+            Keyboard shortcuts
+          </h2>
+          <button
+            autoFocus
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+            aria-label="Close keyboard shortcuts"
+          >
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+          {groups.map((group) => (
+            <section key={group.title}>
+              <h3 className="mb-2 text-xs font-bold uppercase tracking-wider text-gray-600">
+                {group.title}
+              </h3>
+              <dl className="space-y-2">
+                {group.shortcuts.map((shortcut) => (
+                  <div
+                    key={shortcut.description}
+                    className="flex items-center justify-between gap-4 text-sm"
+                  >
+                    <dt className="text-gray-700">{shortcut.description}</dt>
+                    <dd className="flex flex-shrink-0 gap-1">
+                      {shortcut.keys.map((key) => (
+                        <kbd
+                          key={key}
+                          className="rounded border border-gray-300 bg-gray-50 px-1.5 text-xs text-gray-700"
+                        >
+                          {key}
+                        </kbd>
+                      ))}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            </section>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default KeyboardShortcutsDialog;
@@ -1,5 +1,13 @@
 // src/components/LibraryHome.tsx
-import React, { useState, useEffect } from "react";
+import React, {
+  useState,
+  useEffect,
+  useMemo,
+  useRef,
+  useCallback,
+} from "react";
+import { useRouter } from "next/router";
+import type { ParsedUrlQuery } from "querystring";
 import {
   Search,
   User,
@@ -12,8 +20,29 @@ import {
   BookOpen,
   ChevronDown,
   ChevronUp,
+  GitCompare,
+  Download,
+  WifiOff,
+  Calendar,
+  Layers,
 } from "lucide-react";
 import { libraryService } from "../services/libraryService";
+import { offlineStore } from "@/services/offlineStore";
+import { useOfflineDocuments } from "@/hooks/useOfflineDocuments";
+import { AncestorCrumb } from "@/types/buildingCode";
+import { formatNodeLabel } from "@/utils/hierarchy";
+import { findMatchRanges, parseSearchQuery } from "@/utils/searchQuery";
+import {
+  FacetCounts,
+  FacetCountsResponse,
+  FacetName,
+  FacetSelection,
+  FacetValues,
+  countFacets,
+  facetCountsFromResponse,
+  UNKNOWN_FACET_VALUE,
+  matchesFacets,
+} from "@/utils/searchFacets";
 
 interface Jurisdiction {
   id: number;
@@ -70,7 +99,84 @@ interface SearchResponse {
     total: number;
     totalPages: number;
   };
+  // Counted over every hit matching the query and the other facets
+  facets?: FacetCountsResponse;
+}
+const SEARCH_PAGE_SIZE = 10;
+
+const DEFAULT_DOCUMENT_TYPES = ["Codes"];
+const DEFAULT_LANGUAGES = ["English"];
+
+// Search and filter state kept in the query string, so a refresh, a shared
+// link or back/forward lands on the same filtered result page
+interface LibraryUrlState {
+  query: string;
+  page: number;
+  jurisdiction: string;
+  documentTypes: Set<string>;
+  languages: Set<string>;
+  yearFrom: number | null;
+  yearTo: number | null;
+  contentTypes: Set<string>;
 }
+
+const firstParam = (value: string | string[] | undefined) =>
+  Array.isArray(value) ? value[0] : value;
+
+const numberParam = (value: string | string[] | undefined) => {
+  const number = parseInt(firstParam(value) ?? "", 10);
+  return isNaN(number) ? null : number;
+};
+
+// Repeated parameters, e.g. types=Codes&types=Guides. Absent means the
+// default; an empty value means nothing selected.
+const setParam = (
+  value: string | string[] | undefined,
+  defaults: string[] = []
+) => {
+  if (value === undefined) return new Set(defaults);
+  return new Set((Array.isArray(value) ? value : [value]).filter(Boolean));
+};
+
+const parseLibraryUrl = (query: ParsedUrlQuery): LibraryUrlState => ({
+  query: firstParam(query.q) ?? "",
+  page: Math.max(1, numberParam(query.page) ?? 1),
+  jurisdiction: firstParam(query.jurisdiction) || "all",
+  documentTypes: setParam(query.types, DEFAULT_DOCUMENT_TYPES),
+  languages: setParam(query.languages, DEFAULT_LANGUAGES),
+  yearFrom: numberParam(query.from),
+  yearTo: numberParam(query.to),
+  contentTypes: setParam(query.level),
+});
+
+const toSetParam = (values: Set<string>, defaults: string[] = []) => {
+  if (
+    values.size === defaults.length &&
+    defaults.every((value) => values.has(value))
+  ) {
+    return undefined;
+  }
+  return values.size > 0 ? Array.from(values).sort() : "";
+};
+
+// Query string for a state, leaving out anything at its default
+const toLibraryUrl = (state: LibraryUrlState): ParsedUrlQuery => {
+  const query: Record<string, string | string[] | undefined> = {
+    q: state.query || undefined,
+    page: state.query !== "" && state.page > 1 ? String(state.page) : undefined,
+    jurisdiction: state.jurisdiction !== "all" ? state.jurisdiction : undefined,
+    types: toSetParam(state.documentTypes, DEFAULT_DOCUMENT_TYPES),
+    languages: toSetParam(state.languages, DEFAULT_LANGUAGES),
+    from: state.yearFrom !== null ? String(state.yearFrom) : undefined,
+    to: state.yearTo !== null ? String(state.yearTo) : undefined,
+    level: toSetParam(state.contentTypes),
+  };
+  Object.keys(query).forEach((key) => {
+    if (query[key] === undefined) delete query[key];
+  });
+  return query as ParsedUrlQuery;
+};
+
 interface PdfDocument {
   id: string;
   title: string;
@@ -85,31 +191,88 @@ interface PdfDocument {
   processing_status: string;
 }
 
+const fetchSearchHits = (query: string, page: number, facets: FacetSelection) =>
+  libraryService.searchContent(
+    query,
+    undefined, // Search across all documents
+    page,
+    SEARCH_PAGE_SIZE,
+    facets
+  ) as Promise<SearchResponse>;
+
+const documentFacets = (document: PdfDocument): FacetValues => ({
+  jurisdiction: document.jurisdiction_code,
+  documentType: document.document_type_name,
+  language: document.language_name,
+  year: document.year ?? null,
+  contentType: null,
+});
+
 const LibraryHome: React.FC = () => {
+  const router = useRouter();
   const [jurisdictions, setJurisdictions] = useState<Jurisdiction[]>([]);
   const [documentTypes, setDocumentTypes] = useState<DocumentType[]>([]);
   const [languages, setLanguages] = useState<Language[]>([]);
   const [pdfDocuments, setPdfDocuments] = useState<PdfDocument[]>([]);
   const [filteredDocuments, setFilteredDocuments] = useState<PdfDocument[]>([]);
   const [searchQuery, setSearchQuery] = useState<string>("");
-  const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
+  // The current page of hits, filtered by the facets on the server, with
+  // the totals and facet counts over all of them
+  const [searchHits, setSearchHits] = useState<SearchResult[]>([]);
+  const [searchHitTotal, setSearchHitTotal] = useState(0);
+  const [searchPageCount, setSearchPageCount] = useState(0);
+  // Page the hits are from, which is the last one when the URL asks for a
+  // page past it
+  const [searchResultPage, setSearchResultPage] = useState(1);
+  const [searchFacetCounts, setSearchFacetCounts] =
+    useState<FacetCounts | null>(null);
   const [isSearching, setIsSearching] = useState<boolean>(false);
-  const [searchPagination, setSearchPagination] = useState({
-    page: 1,
-    limit: 10,
-    total: 0,
-    totalPages: 0,
-  });
   const [showSearchResults, setShowSearchResults] = useState<boolean>(false);
+  const [ancestorChains, setAncestorChains] = useState<
+    Record<number, AncestorCrumb[]>
+  >({});
+  const requestedBreadcrumbs = useRef(new Set<number>());
+  // Latest search, so responses to earlier ones are ignored
+  const searchRequest = useRef(0);
+
+  // The query string is the source of truth for the submitted search, its
+  // page and the filters; changing them updates the URL
+  const urlState = useMemo(() => parseLibraryUrl(router.query), [router.query]);
+  const {
+    query: submittedQuery,
+    page: searchPage,
+    jurisdiction: selectedJurisdiction,
+    documentTypes: selectedDocumentTypes,
+    languages: selectedLanguages,
+    yearFrom,
+    yearTo,
+    // Search only: article, sentence, ...
+    contentTypes: selectedContentTypes,
+  } = urlState;
+
+  // New searches and pages add a history entry; filter changes replace it.
+  // Any change other than a page change starts over from the first page.
+  const updateUrlState = (
+    changes: Partial<LibraryUrlState>,
+    push: boolean = false
+  ) => {
+    const url = {
+      pathname: router.pathname,
+      query: toLibraryUrl({ ...urlState, page: 1, ...changes }),
+    };
+    if (push) {
+      router.push(url, undefined, { shallow: true });
+    } else {
+      router.replace(url, undefined, { shallow: true });
+    }
+  };
+
+  const setSelectedJurisdiction = (jurisdiction: string) =>
+    updateUrlState({ jurisdiction });
+  const setYearFrom = (year: number | null) =>
+    updateUrlState({ yearFrom: year });
+  const setYearTo = (year: number | null) => updateUrlState({ yearTo: year });
 
-  const [selectedJurisdiction, setSelectedJurisdiction] =
-    useState<string>("all");
-  const [selectedDocumentTypes, setSelectedDocumentTypes] = useState<
-    Set<string>
-  >(new Set(["Codes"]));
-  const [selectedLanguages, setSelectedLanguages] = useState<Set<string>>(
-    new Set(["English"])
-  );
   const [searchTerm, setSearchTerm] = useState<string>("");
 
   const [loading, setLoading] = useState(true);
@@ -117,21 +280,154 @@ const LibraryHome: React.FC = () => {
     jurisdiction: true,
     types: true,
     language: true,
+    year: true,
+    contentType: true,
   });
 
+  const facetSelection: FacetSelection = useMemo(
+    () => ({
+      jurisdiction: selectedJurisdiction,
+      documentTypes: selectedDocumentTypes,
+      languages: selectedLanguages,
+      yearFrom,
+      yearTo,
+      contentTypes: selectedContentTypes,
+    }),
+    [
+      selectedJurisdiction,
+      selectedDocumentTypes,
+      selectedLanguages,
+      yearFrom,
+      yearTo,
+      selectedContentTypes,
+    ]
+  );
+
+  const searchPagination = {
+    page: searchResultPage,
+    limit: SEARCH_PAGE_SIZE,
+    total: searchHitTotal,
+    totalPages: searchPageCount,
+  };
+
+  // Live counts: of hits while searching, of documents otherwise
+  const facetCounts = useMemo(
+    () =>
+      showSearchResults
+        ? searchFacetCounts ?? facetCountsFromResponse(undefined)
+        : countFacets(pdfDocuments, documentFacets, facetSelection),
+    [showSearchResults, searchFacetCounts, pdfDocuments, facetSelection]
+  );
+
+  const availableYears = useMemo(
+    () =>
+      Array.from(
+        new Set(
+          pdfDocuments.map((document) => document.year).filter((year) => !!year)
+        )
+      ).sort((a, b) => a - b),
+    [pdfDocuments]
+  );
+
+  const availableContentTypes = useMemo(
+    () =>
+      Array.from(
+        new Set([
+          ...Array.from(facetCounts.values.contentType.keys()),
+          ...Array.from(selectedContentTypes),
+        ])
+      ).sort(),
+    [facetCounts, selectedContentTypes]
+  );
+
+  const offlineDocuments = useOfflineDocuments();
+
   useEffect(() => {
     fetchData();
   }, []);
 
   useEffect(() => {
     filterDocuments();
-  }, [
-    selectedJurisdiction,
-    selectedDocumentTypes,
-    selectedLanguages,
-    searchTerm,
-    pdfDocuments,
-  ]);
+  }, [facetSelection, searchTerm, pdfDocuments]);
+
+  // One page of hits for a query under the selected facets
+  const runSearch = useCallback(
+    async (query: string, page: number, facets: FacetSelection) => {
+      const requestId = ++searchRequest.current;
+      try {
+        setIsSearching(true);
+        let response = await fetchSearchHits(query, page, facets);
+        if (requestId !== searchRequest.current) return;
+        // Only the server knows how many pages there are, so a page past
+        // the last one, e.g. from an old shared link, is clamped once it has
+        // answered
+        const { totalPages } = response.pagination;
+        if (totalPages > 0 && page > totalPages) {
+          response = await fetchSearchHits(query, totalPages, facets);
+          if (requestId !== searchRequest.current) return;
+        }
+        setSearchHits(response.results);
+        setSearchHitTotal(response.pagination.total);
+        setSearchPageCount(response.pagination.totalPages);
+        setSearchResultPage(Math.min(page, Math.max(1, totalPages)));
+        setSearchFacetCounts(facetCountsFromResponse(response.facets));
+        setShowSearchResults(true);
+      } catch (error) {
+        console.error("Search error:", error);
+        // You might want to show an error message to the user
+      } finally {
+        if (requestId === searchRequest.current) setIsSearching(false);
+      }
+    },
+    []
+  );
+
+  // Run the search in the URL on load and whenever it, its page or the
+  // facets change, including back/forward between searches
+  useEffect(() => {
+    if (!router.isReady) return;
+    setSearchQuery(submittedQuery);
+    if (submittedQuery.trim()) {
+      runSearch(submittedQuery, searchPage, facetSelection);
+    } else {
+      searchRequest.current++;
+      setIsSearching(false);
+      setShowSearchResults(false);
+      setSearchHits([]);
+      setSearchHitTotal(0);
+      setSearchPageCount(0);
+      setSearchResultPage(1);
+      setSearchFacetCounts(null);
+    }
+  }, [router.isReady, submittedQuery, searchPage, facetSelection, runSearch]);
+
+  // Resolve breadcrumbs for the current result page, one lookup per document.
+  // Ids already asked for are remembered so each is only looked up once.
+  useEffect(() => {
+    const idsByDocument = new Map<string, number[]>();
+    searchHits.forEach((result) => {
+      if (requestedBreadcrumbs.current.has(result.id)) return;
+      requestedBreadcrumbs.current.add(result.id);
+      const ids = idsByDocument.get(result.pdf_document_id) || [];
+      ids.push(result.id);
+      idsByDocument.set(result.pdf_document_id, ids);
+    });
+
+    if (idsByDocument.size === 0) return;
+
+    Promise.all(
+      Array.from(idsByDocument.entries()).map(([documentId, ids]) =>
+        libraryService.getAncestorChains(documentId, ids).catch((error) => {
+          console.error("Error resolving breadcrumbs:", error);
+          // Let a later page of results try these again
+          ids.forEach((id) => requestedBreadcrumbs.current.delete(id));
+          return {};
+        })
+      )
+    ).then((chains) => {
+      setAncestorChains((prev) => Object.assign({}, prev, ...chains));
+    });
+  }, [searchHits]);
 
   const fetchData = async () => {
     try {
@@ -155,36 +451,21 @@ const LibraryHome: React.FC = () => {
       setPdfDocuments(pdfDocumentsRes);
     } catch (error) {
       console.error("Error fetching data:", error);
+      // Without a connection, list the documents saved for offline reading
+      const saved = await offlineStore.getAll<PdfDocument>().catch(() => []);
+      if (saved.length > 0) {
+        setPdfDocuments(saved.map((entry) => entry.document));
+      }
     } finally {
       setLoading(false);
     }
   };
 
   const filterDocuments = () => {
-    let filtered = pdfDocuments;
-
-    // Filter by jurisdiction
-    if (selectedJurisdiction !== "all") {
-      filtered = filtered.filter(
-        (doc) =>
-          doc.jurisdiction_code.toLowerCase() ===
-          selectedJurisdiction.toLowerCase()
-      );
-    }
-
-    // Filter by document type
-    if (selectedDocumentTypes.size > 0) {
-      filtered = filtered.filter((doc) =>
-        selectedDocumentTypes.has(doc.document_type_name)
-      );
-    }
-
-    // Filter by language
-    if (selectedLanguages.size > 0) {
-      filtered = filtered.filter((doc) =>
-        selectedLanguages.has(doc.language_name)
-      );
-    }
+    // Filter by jurisdiction, document type, language and year
+    let filtered = pdfDocuments.filter((doc) =>
+      matchesFacets(documentFacets(doc), facetSelection)
+    );
 
     // Filter by search term
     if (searchTerm) {
@@ -210,7 +491,7 @@ const LibraryHome: React.FC = () => {
     } else {
       newSelected.add(typeName);
     }
-    setSelectedDocumentTypes(newSelected);
+    updateUrlState({ documentTypes: newSelected });
   };
 
   const toggleLanguage = (languageName: string) => {
@@ -220,8 +501,36 @@ const LibraryHome: React.FC = () => {
     } else {
       newSelected.add(languageName);
     }
-    setSelectedLanguages(newSelected);
+    updateUrlState({ languages: newSelected });
+  };
+
+  const toggleContentType = (contentType: string) => {
+    const newSelected = new Set(selectedContentTypes);
+    if (newSelected.has(contentType)) {
+      newSelected.delete(contentType);
+    } else {
+      newSelected.add(contentType);
+    }
+    updateUrlState({ contentTypes: newSelected });
+  };
+
+  // Count shown on a facet chip
+  const renderFacetCount = (count: number) => (
+    <span className="ml-1.5 text-xs opacity-60">{count}</span>
+  );
+
+  // Items with no value for a facet are kept by every filter on it, so they
+  // are counted but cannot be selected
+  const renderUnknownFacet = (facet: FacetName) => {
+    const count = facetCounts.values[facet].get(UNKNOWN_FACET_VALUE) ?? 0;
+    return count > 0 ? (
+      <span className="px-3 py-2 rounded-full text-sm font-medium border border-dashed border-gray-300 text-gray-600">
+        Unknown
+        {renderFacetCount(count)}
+      </span>
+    ) : null;
   };
+
   const toggleSection = (section: keyof typeof expandedSections) => {
     setExpandedSections((prev) => ({
       ...prev,
@@ -237,6 +546,15 @@ const LibraryHome: React.FC = () => {
     });
   };
 
+  // Another edition of the same code exists to compare against
+  const hasOtherEditions = (document: PdfDocument) =>
+    pdfDocuments.some(
+      (other) =>
+        other.id !== document.id &&
+        other.jurisdiction_code === document.jurisdiction_code &&
+        other.document_type_name === document.document_type_name
+    );
+
   const getDocumentTypeColor = (type: string) => {
     const colors: { [key: string]: string } = {
       Codes: "bg-blue-100 text-blue-800",
@@ -311,30 +629,15 @@ const LibraryHome: React.FC = () => {
     return Object.values(articles);
   };
 
-  const handleSearch = async (page: number = 1) => {
-    if (!searchQuery.trim()) {
-      setShowSearchResults(false);
+  const handleSearch = () => {
+    const query = searchQuery.trim();
+    if (query && query === submittedQuery) {
+      // The URL would not change, so search again from here
+      if (searchPage !== 1) updateUrlState({ query }, true);
+      else runSearch(query, 1, facetSelection);
       return;
     }
-
-    try {
-      setIsSearching(true);
-      const response: SearchResponse = await libraryService.searchContent(
-        searchQuery,
-        undefined, // Search across all documents
-        page,
-        10
-      );
-
-      setSearchResults(response.results);
-      setSearchPagination(response.pagination);
-      setShowSearchResults(true);
-    } catch (error) {
-      console.error("Search error:", error);
-      // You might want to show an error message to the user
-    } finally {
-      setIsSearching(false);
-    }
+    updateUrlState({ query }, true);
   };
 
   // Handle search input key press
@@ -351,14 +654,13 @@ const LibraryHome: React.FC = () => {
 
   // Handle pagination
   const handlePageChange = (newPage: number) => {
-    handleSearch(newPage);
+    updateUrlState({ page: newPage }, true);
   };
 
   // Clear search
   const handleClearSearch = () => {
     setSearchQuery("");
-    setShowSearchResults(false);
-    setSearchResults([]);
+    updateUrlState({ query: "" }, true);
   };
 
   // Navigate to document
@@ -374,97 +676,68 @@ const LibraryHome: React.FC = () => {
   const highlightText = (text: string, highlight: string) => {
     if (!highlight || !text) return text;
 
-    const parts = text.split(new RegExp(`(${highlight})`, "gi"));
-    return (
-      <>
-        {parts.map((part, i) =>
-          part.toLowerCase() === highlight.toLowerCase() ? (
-            <mark key={i} className="bg-yellow-200 px-0.5 rounded">
-              {part}
-            </mark>
-          ) : (
-            part
-          )
-        )}
-      </>
+    const ranges = findMatchRanges(
+      text,
+      parseSearchQuery(highlight).highlightTerms
     );
+    if (ranges.length === 0) return text;
+
+    const parts: React.ReactNode[] = [];
+    let lastIndex = 0;
+    ranges.forEach((range, i) => {
+      parts.push(text.slice(lastIndex, range.start));
+      parts.push(
+        <mark key={i} className="bg-yellow-200 px-0.5 rounded">
+          {text.slice(range.start, range.end)}
+        </mark>
+      );
+      lastIndex = range.end;
+    });
+    parts.push(text.slice(lastIndex));
+    return <>{parts}</>;
   };
 
   // Helper function to render hierarchical path
   const renderHierarchicalPath = (result: SearchResult) => {
-    const hierarchyLevels = [
-      "division",
-      "part",
-      "section",
-      "subsection",
-      "article",
-      "sentence",
-      "clause",
-      "subclause",
+    const ancestors = ancestorChains[result.id];
+
+    // Ancestors not resolved yet (or lookup failed) - keep the card compact
+    if (!ancestors) return null;
+
+    const crumbs = [
+      ...ancestors,
+      {
+        id: result.id,
+        label: formatNodeLabel({
+          content_type: result.content_type,
+          reference_code: result.reference_code,
+          title: result.title,
+        }),
+      },
     ];
 
-    const currentLevelIndex = hierarchyLevels.indexOf(
-      result.content_type.toLowerCase()
-    );
-
-    if (currentLevelIndex === -1) return null;
-
-    // Create breadcrumb-like path showing parent hierarchy
-    const pathElements = [];
-
-    // Add parent levels (you might need to fetch this data from your API)
-    // For now, we'll show a simplified version based on content type
-    if (currentLevelIndex > 0) {
-      pathElements.push(
-        <div
-          key="path"
-          className="flex items-center space-x-1 text-xs text-gray-500 mb-2"
-        >
-          <span>
-            In{" "}
-            {hierarchyLevels.slice(0, currentLevelIndex).map((level) => (
-              <span key={level} className="capitalize">
-                {level} →{" "}
-              </span>
-            ))}
-          </span>
-          <span className="font-medium text-black capitalize">
-            {result.content_type}
-          </span>
-        </div>
-      );
-    }
-
     return (
-      <div className="mb-3">
-        {pathElements}
-
-        {/* Visual hierarchy indicator */}
-        <div className="flex items-center space-x-2 text-xs text-gray-400">
-          <div className="flex items-center space-x-1">
-            {hierarchyLevels
-              .slice(0, currentLevelIndex + 1)
-              .map((level, index) => (
-                <div
-                  key={level}
-                  className={`flex items-center ${
-                    index === currentLevelIndex
-                      ? "text-black font-medium"
-                      : "text-gray-400"
-                  }`}
-                >
-                  {index > 0 && <span className="mx-1">›</span>}
-                  <span className="capitalize">
-                    {level}
-                    {index === currentLevelIndex && (
-                      <span className="ml-1 w-2 h-2 bg-blue-500 rounded-full inline-block"></span>
-                    )}
-                  </span>
-                </div>
-              ))}
-          </div>
-        </div>
-      </div>
+      <nav
+        aria-label="Breadcrumb"
+        className="flex flex-wrap items-center text-xs text-gray-500 mb-2"
+      >
+        {crumbs.map((crumb, index) => (
+          <span key={crumb.id} className="flex items-center">
+            {index > 0 && <span className="mx-1">›</span>}
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                navigateToDocument(result.pdf_document_id, crumb.id);
+              }}
+              className={`hover:text-blue-600 hover:underline transition-colors ${
+                index === crumbs.length - 1 ? "text-black font-medium" : ""
+              }`}
+            >
+              {crumb.label}
+            </button>
+          </span>
+        ))}
+      </nav>
     );
   };
 
@@ -567,6 +840,7 @@ const LibraryHome: React.FC = () => {
                         }`}
                       >
                         All
+                        {renderFacetCount(facetCounts.totals.jurisdiction)}
                       </button>
 
                       {jurisdictions
@@ -584,8 +858,14 @@ const LibraryHome: React.FC = () => {
                             }`}
                           >
                             {jurisdiction.name}
+                            {renderFacetCount(
+                              facetCounts.values.jurisdiction.get(
+                                jurisdiction.code.toLowerCase()
+                              ) ?? 0
+                            )}
                           </button>
                         ))}
+                      {renderUnknownFacet("jurisdiction")}
                     </div>
                   </div>
                 )}
@@ -621,8 +901,12 @@ const LibraryHome: React.FC = () => {
                           }`}
                         >
                           {type.name}
+                          {renderFacetCount(
+                            facetCounts.values.documentType.get(type.name) ?? 0
+                          )}
                         </button>
                       ))}
+                      {renderUnknownFacet("documentType")}
                     </div>
                   </div>
                 )}
@@ -658,18 +942,125 @@ const LibraryHome: React.FC = () => {
                           }`}
                         >
                           {language.name}
+                          {renderFacetCount(
+                            facetCounts.values.language.get(language.name) ?? 0
+                          )}
                         </button>
                       ))}
+                      {renderUnknownFacet("language")}
                     </div>
                   </div>
                 )}
               </div>
 
+              {/* Year Range Filter */}
+              <div className="border-b border-gray-200">
+                <button
+                  className="flex items-center justify-between w-full p-6 text-left"
+                  onClick={() => toggleSection("year")}
+                >
+                  <div className="flex items-center space-x-2">
+                    <Calendar className="h-4 w-4 text-black" />
+                    <span className="font-medium text-black">Year</span>
+                  </div>
+                  {expandedSections.year ? (
+                    <ChevronUp className="h-4 w-4 text-black" />
+                  ) : (
+                    <ChevronDown className="h-4 w-4 text-black" />
+                  )}
+                </button>
+                {expandedSections.year && (
+                  <div className="pb-4 px-6 flex items-center gap-2">
+                    <select
+                      aria-label="From year"
+                      value={yearFrom ?? ""}
+                      onChange={(e) =>
+                        setYearFrom(
+                          e.target.value ? Number(e.target.value) : null
+                        )
+                      }
+                      className="flex-1 px-2 py-2 border border-gray-300 rounded-lg text-sm text-black bg-white"
+                    >
+                      <option value="">Any</option>
+                      {availableYears.map((year) => (
+                        <option key={year} value={year}>
+                          {year} (
+                          {facetCounts.values.year.get(String(year)) ?? 0})
+                        </option>
+                      ))}
+                    </select>
+                    <span className="text-sm text-gray-600">to</span>
+                    <select
+                      aria-label="To year"
+                      value={yearTo ?? ""}
+                      onChange={(e) =>
+                        setYearTo(
+                          e.target.value ? Number(e.target.value) : null
+                        )
+                      }
+                      className="flex-1 px-2 py-2 border border-gray-300 rounded-lg text-sm text-black bg-white"
+                    >
+                      <option value="">Any</option>
+                      {availableYears.map((year) => (
+                        <option key={year} value={year}>
+                          {year} (
+                          {facetCounts.values.year.get(String(year)) ?? 0})
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+              </div>
+
+              {/* Content Type Filter - applies to search hits */}
+              {showSearchResults && (
+                <div className="border-b border-gray-200">
+                  <button
+                    className="flex items-center justify-between w-full p-6 text-left"
+                    onClick={() => toggleSection("contentType")}
+                  >
+                    <div className="flex items-center space-x-2">
+                      <Layers className="h-4 w-4 text-black" />
+                      <span className="font-medium text-black">Level</span>
+                    </div>
+                    {expandedSections.contentType ? (
+                      <ChevronUp className="h-4 w-4 text-black" />
+                    ) : (
+                      <ChevronDown className="h-4 w-4 text-black" />
+                    )}
+                  </button>
+                  {expandedSections.contentType && (
+                    <div className="pb-4 px-6">
+                      <div className="flex flex-wrap gap-2">
+                        {availableContentTypes.map((contentType) => (
+                          <button
+                            key={contentType}
+                            onClick={() => toggleContentType(contentType)}
+                            className={`px-3 py-2 rounded-full text-sm font-medium capitalize transition-all border cursor-pointer ${
+                              selectedContentTypes.has(contentType)
+                                ? "bg-black text-white border-black"
+                                : "bg-white text-black border-gray-300 hover:border-black"
+                            }`}
+                          >
+                            {contentType}
+                            {renderFacetCount(
+                              facetCounts.values.contentType.get(contentType) ??
+                                0
+                            )}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+
               {/* Results Count */}
               <div className="p-6">
                 <p className="text-sm text-black">
-                  Showing {filteredDocuments.length} of {pdfDocuments.length}{" "}
-                  documents
+                  {showSearchResults
+                    ? `Showing ${searchHitTotal} results`
+                    : `Showing ${filteredDocuments.length} of ${pdfDocuments.length} documents`}
                 </p>
               </div>
             </div>
@@ -704,7 +1095,7 @@ const LibraryHome: React.FC = () => {
                         <Loader2 className="h-8 w-8 animate-spin mx-auto mb-4 text-black" />
                         <p className="text-gray-600">Searching documents...</p>
                       </div>
-                    ) : searchResults.length === 0 ? (
+                    ) : searchHits.length === 0 ? (
                       <div className="text-center py-12">
                         <FileText className="h-16 w-16 text-gray-300 mx-auto mb-4" />
                         <h3 className="text-lg font-medium text-black mb-2">
@@ -718,7 +1109,7 @@ const LibraryHome: React.FC = () => {
                     ) : (
                       <>
                         <div className="space-y-6">
-                          {groupSearchResultsByArticle(searchResults).map(
+                          {groupSearchResultsByArticle(searchHits).map(
                             (group) => (
                               <div
                                 key={group.documentId}
@@ -752,6 +1143,8 @@ const LibraryHome: React.FC = () => {
                                             )
                                           }
                                         >
+                                          {renderHierarchicalPath(headerItem)}
+
                                           {/* Article Header */}
                                           <div className="flex items-start justify-between mb-3">
                                             <div className="flex-1 ">
@@ -872,6 +1265,11 @@ const LibraryHome: React.FC = () => {
                 ) : (
                   // Show filtered documents when not searching (keep existing code)
                   <>
+                    {offlineDocuments.error && (
+                      <p className="mb-4 text-sm text-red-600">
+                        {offlineDocuments.error}
+                      </p>
+                    )}
                     {filteredDocuments.length === 0 ? (
                       <div className="text-center py-12">
                         <FileText className="h-16 w-16 text-gray-300 mx-auto mb-4" />
@@ -935,6 +1333,54 @@ const LibraryHome: React.FC = () => {
                               </div>
 
                               <div className="flex items-center space-x-4">
+                                <button
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    offlineDocuments.toggle(document.id);
+                                  }}
+                                  disabled={offlineDocuments.isPending(
+                                    document.id
+                                  )}
+                                  className={`flex items-center space-x-1 text-xs transition-colors ${
+                                    offlineDocuments.isSaved(document.id)
+                                      ? "text-green-700 hover:text-green-900"
+                                      : "text-gray-600 hover:text-black"
+                                  }`}
+                                  title={
+                                    offlineDocuments.isSaved(document.id)
+                                      ? "Remove the offline copy"
+                                      : "Make available offline"
+                                  }
+                                  aria-pressed={offlineDocuments.isSaved(
+                                    document.id
+                                  )}
+                                >
+                                  {offlineDocuments.isPending(document.id) ? (
+                                    <Loader2 className="h-4 w-4 animate-spin" />
+                                  ) : offlineDocuments.isSaved(document.id) ? (
+                                    <WifiOff className="h-4 w-4" />
+                                  ) : (
+                                    <Download className="h-4 w-4" />
+                                  )}
+                                  <span>
+                                    {offlineDocuments.isSaved(document.id)
+                                      ? "Available offline"
+                                      : "Make available offline"}
+                                  </span>
+                                </button>
+                                {hasOtherEditions(document) && (
+                                  <button
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      window.location.href = `/compare?base=${document.id}`;
+                                    }}
+                                    className="flex items-center space-x-1 text-xs text-gray-600 hover:text-black transition-colors"
+                                    title="Compare with another edition"
+                                  >
+                                    <GitCompare className="h-4 w-4" />
+                                    <span>Compare</span>
+                                  </button>
+                                )}
                                 <span
                                   className={`text-xs px-2 py-1 rounded ${
                                     document.processing_status === "completed"
@@ -0,0 +1,97 @@
+// src/components/NavigationHistoryControls.tsx
+import React, { useEffect, useRef, useState } from "react";
+import { ArrowLeft, ArrowRight, ChevronDown, History } from "lucide-react";
+import { NavigationHistory } from "@/hooks/useNavigationHistory";
+
+interface NavigationHistoryControlsProps {
+  history: NavigationHistory;
+  // Move through the browser history by the given number of entries
+  onGo: (delta: number) => void;
+}
+
+const MAX_RECENT = 15;
+
+const NavigationHistoryControls: React.FC<NavigationHistoryControlsProps> = ({
+  history,
+  onGo,
+}) => {
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close the dropdown when clicking anywhere else
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [open]);
+
+  const recent = history.entries
+    .map((entry, index) => ({ entry, index }))
+    .reverse()
+    .slice(0, MAX_RECENT);
+
+  const buttonClass =
+    "p-2 rounded-lg text-gray-600 hover:bg-gray-100 hover:text-gray-900 transition-colors disabled:opacity-40 disabled:hover:bg-transparent";
+
+  return (
+    <div ref={containerRef} className="relative flex items-center flex-shrink-0">
+      <button
+        onClick={() => onGo(-1)}
+        disabled={!history.canGoBack}
+        className={buttonClass}
+        title="Back"
+        aria-label="Back"
+      >
+        <ArrowLeft size={18} />
+      </button>
+      <button
+        onClick={() => onGo(1)}
+        disabled={!history.canGoForward}
+        className={buttonClass}
+        title="Forward"
+        aria-label="Forward"
+      >
+        <ArrowRight size={18} />
+      </button>
+      <button
+        onClick={() => setOpen((prev) => !prev)}
+        disabled={history.entries.length < 2}
+        className={`${buttonClass} flex items-center`}
+        title="Recent jumps"
+        aria-label="Recent jumps"
+        aria-expanded={open}
+      >
+        <History size={18} />
+        <ChevronDown size={14} />
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full z-40 mt-2 w-80 max-h-96 overflow-y-auto rounded-xl border border-gray-200 bg-white py-2 shadow-lg">
+          {recent.map(({ entry, index }) => (
+            <button
+              key={index}
+              onClick={() => {
+                setOpen(false);
+                onGo(index - history.cursor);
+              }}
+              className={`block w-full truncate px-4 py-2 text-left text-sm transition-colors hover:bg-blue-50 ${
+                index === history.cursor
+                  ? "font-semibold text-blue-700"
+                  : "text-gray-700"
+              }`}
+            >
+              {entry.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NavigationHistoryControls;
@@ -0,0 +1,294 @@
+// src/components/PdfPagePane.tsx
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { FileText, Loader2, Upload, X } from "lucide-react";
+import type { PDFDocumentProxy, RenderTask } from "pdfjs-dist";
+import { HierarchyNode } from "@/types/buildingCode";
+import { libraryService } from "@/services/libraryService";
+
+interface PdfPagePaneProps {
+  documentId?: string;
+  fileName?: string;
+  // Item whose source page and bounding box are shown
+  item: HierarchyNode | null;
+  nodes: Map<number, HierarchyNode>;
+  onSelect: (id: number) => void;
+  onClose: () => void;
+}
+
+// Local copies for testing without the backend live in public/pdfs/
+const LOCAL_PDF_DIRECTORY = "/pdfs";
+
+// bbox values are PDF points with a top-left origin: [x0, top, x1, bottom]
+type Box = [number, number, number, number];
+
+const toBox = (bbox: number[] | null): Box | null =>
+  bbox && bbox.length >= 4 ? [bbox[0], bbox[1], bbox[2], bbox[3]] : null;
+
+// pdf.js looks for an already loaded worker on globalThis.pdfjsWorker before
+// spawning one, which keeps the worker inside the regular bundle
+const loadPdfJs = async () => {
+  const [pdfjs, worker] = await Promise.all([
+    import("pdfjs-dist"),
+    import("pdfjs-dist/build/pdf.worker.min.mjs"),
+  ]);
+  (globalThis as { pdfjsWorker?: unknown }).pdfjsWorker = worker;
+  return pdfjs;
+};
+
+const PdfPagePane: React.FC<PdfPagePaneProps> = ({
+  documentId,
+  fileName,
+  item,
+  nodes,
+  onSelect,
+  onClose,
+}) => {
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [scale, setScale] = useState(1);
+  const [paneWidth, setPaneWidth] = useState(0);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const wrapperRef = useRef<HTMLDivElement>(null);
+  const renderTaskRef = useRef<RenderTask | null>(null);
+
+  const pageNumber = item?.page_number || 1;
+  const highlightBox = toBox(item?.bbox ?? null);
+  const highlightTop = highlightBox ? highlightBox[1] : null;
+
+  // Items that sit on the displayed page, for click-to-select
+  const pageItems = useMemo(
+    () =>
+      Array.from(nodes.values()).filter(
+        (node) => node.page_number === pageNumber && toBox(node.bbox)
+      ),
+    [nodes, pageNumber]
+  );
+
+  const openDocument = async (source: string | ArrayBuffer) => {
+    const pdfjs = await loadPdfJs();
+    const task = pdfjs.getDocument(
+      typeof source === "string" ? { url: source } : { data: source }
+    );
+    return task.promise;
+  };
+
+  // Load from the backend first, then fall back to a local copy
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+
+      const sources = [
+        documentId ? libraryService.getPdfDocumentFileUrl(documentId) : null,
+        fileName ? `${LOCAL_PDF_DIRECTORY}/${fileName}` : null,
+      ].filter((source): source is string => !!source);
+
+      for (const source of sources) {
+        try {
+          const loaded = await openDocument(source);
+          if (cancelled) {
+            loaded.destroy();
+          } else {
+            setPdf(loaded);
+          }
+          return;
+        } catch (err) {
+          console.warn(`Could not load PDF from ${source}:`, err);
+        }
+      }
+
+      if (!cancelled) {
+        setError("The original PDF is not available.");
+      }
+    };
+
+    load().finally(() => {
+      if (!cancelled) setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [documentId, fileName]);
+
+  // Free the worker-side copy of a document once it is replaced or unmounted
+  useEffect(
+    () => () => {
+      pdf?.destroy();
+    },
+    [pdf]
+  );
+
+  useEffect(() => {
+    const wrapper = wrapperRef.current;
+    if (!wrapper) return;
+    const observer = new ResizeObserver(() =>
+      setPaneWidth(wrapper.clientWidth)
+    );
+    observer.observe(wrapper);
+    return () => observer.disconnect();
+  }, []);
+
+  // Render the page for the current item, scaled to the pane width
+  useEffect(() => {
+    if (!pdf || !canvasRef.current || paneWidth === 0) return;
+    let cancelled = false;
+
+    const render = async () => {
+      const page = await pdf.getPage(
+        Math.min(Math.max(pageNumber, 1), pdf.numPages)
+      );
+      if (cancelled || !canvasRef.current) return;
+
+      const baseViewport = page.getViewport({ scale: 1 });
+      const nextScale = paneWidth / baseViewport.width;
+      const viewport = page.getViewport({ scale: nextScale });
+      const canvas = canvasRef.current;
+      const ratio = window.devicePixelRatio || 1;
+
+      canvas.width = viewport.width * ratio;
+      canvas.height = viewport.height * ratio;
+      canvas.style.width = `${viewport.width}px`;
+      canvas.style.height = `${viewport.height}px`;
+
+      renderTaskRef.current?.cancel();
+      const task = page.render({
+        canvasContext: canvas.getContext("2d")!,
+        viewport,
+        transform: ratio !== 1 ? [ratio, 0, 0, ratio, 0, 0] : undefined,
+      });
+      renderTaskRef.current = task;
+
+      try {
+        await task.promise;
+        if (!cancelled) setScale(nextScale);
+      } catch {
+        // Superseded by a newer render
+      }
+    };
+
+    render();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pdf, pageNumber, paneWidth]);
+
+  // Keep the highlighted region in view as the selection moves down the page
+  useEffect(() => {
+    if (highlightTop === null || !wrapperRef.current) return;
+    wrapperRef.current.scrollTo({
+      top: Math.max(highlightTop * scale - 40, 0),
+      behavior: "smooth",
+    });
+  }, [highlightTop, scale]);
+
+  const handleLocalFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      setLoading(true);
+      setError(null);
+      setPdf(await openDocument(await file.arrayBuffer()));
+    } catch (err) {
+      console.error("Error opening local PDF:", err);
+      setError("That file could not be opened as a PDF.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Select the smallest item whose box contains the clicked point
+  const handlePageClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = (e.clientX - rect.left) / scale;
+    const y = (e.clientY - rect.top) / scale;
+
+    let best: { id: number; area: number } | null = null;
+    for (const node of pageItems) {
+      const [x0, y0, x1, y1] = toBox(node.bbox)!;
+      if (x < x0 || x > x1 || y < y0 || y > y1) continue;
+      const area = (x1 - x0) * (y1 - y0);
+      if (!best || area < best.area) {
+        best = { id: node.id, area };
+      }
+    }
+
+    if (best) {
+      onSelect(best.id);
+    }
+  };
+
+  return (
+    <aside className="w-2/5 bg-white rounded-2xl shadow-sm border border-gray-200 overflow-hidden flex-shrink-0 flex flex-col">
+      <div className="bg-gradient-to-r from-gray-50 to-white px-5 py-4 border-b border-gray-200 flex items-center justify-between">
+        <h2 className="text-sm font-bold text-gray-700 uppercase tracking-wider flex items-center gap-2">
+          <FileText size={16} />
+          Source page {pdf ? `${pageNumber} / ${pdf.numPages}` : ""}
+        </h2>
+        <div className="flex items-center gap-3">
+          <label
+            className="text-gray-400 hover:text-gray-600 transition-colors cursor-pointer"
+            title="Open a local copy of the PDF"
+          >
+            <Upload size={16} />
+            <input
+              type="file"
+              accept="application/pdf"
+              className="hidden"
+              onChange={handleLocalFile}
+            />
+          </label>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+            aria-label="Close source page"
+          >
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+
+      <div ref={wrapperRef} className="overflow-y-auto flex-1 bg-gray-100">
+        {loading && (
+          <div className="flex items-center justify-center py-16 text-gray-500">
+            <Loader2 className="h-6 w-6 animate-spin mr-2" />
+            Loading PDF...
+          </div>
+        )}
+        {error && !loading && (
+          <div className="p-6 text-center text-sm text-gray-600">
+            <p>{error}</p>
+            <p className="mt-2">
+              Use the upload button to open a local copy of the document.
+            </p>
+          </div>
+        )}
+        <div
+          className={`relative cursor-crosshair ${
+            pdf && !loading ? "" : "hidden"
+          }`}
+          onClick={handlePageClick}
+        >
+          <canvas ref={canvasRef} className="block" />
+          {highlightBox && (
+            <div
+              className="absolute border-2 border-blue-500 bg-blue-400/20 pointer-events-none rounded-sm"
+              style={{
+                left: highlightBox[0] * scale,
+                top: highlightBox[1] * scale,
+                width: (highlightBox[2] - highlightBox[0]) * scale,
+                height: (highlightBox[3] - highlightBox[1]) * scale,
+              }}
+            />
+          )}
+        </div>
+      </div>
+    </aside>
+  );
+};
+
+export default PdfPagePane;
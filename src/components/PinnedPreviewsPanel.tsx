@@ -0,0 +1,81 @@
+// src/components/PinnedPreviewsPanel.tsx
+import React from "react";
+import { Pin, X } from "lucide-react";
+import { ProvisionPreview } from "@/utils/previews";
+
+interface PinnedPreviewsPanelProps {
+  previews: ProvisionPreview[];
+  onNavigate: (id: number) => void;
+  onUnpin: (id: number) => void;
+  onClose: () => void;
+}
+
+const PinnedPreviewsPanel: React.FC<PinnedPreviewsPanelProps> = ({
+  previews,
+  onNavigate,
+  onUnpin,
+  onClose,
+}) => {
+  return (
+    <aside className="w-1/4 bg-white rounded-2xl shadow-sm border border-gray-200 overflow-hidden flex-shrink-0 flex flex-col">
+      <div className="bg-gradient-to-r from-purple-50 to-white px-5 py-4 border-b border-gray-200 flex items-center justify-between">
+        <h2 className="text-sm font-bold text-gray-700 uppercase tracking-wider flex items-center gap-2">
+          <Pin size={16} />
+          Pinned
+          <span className="bg-purple-700 text-white text-xs px-2 py-1 rounded-full ml-1">
+            {previews.length}
+          </span>
+        </h2>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-gray-600 transition-colors"
+          aria-label="Unpin all"
+        >
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="overflow-y-auto flex-1 p-3 space-y-3">
+        {previews.map((preview) => (
+          <div
+            key={preview.id}
+            className="rounded-lg border border-gray-200 p-3 text-sm text-gray-700"
+          >
+            <div className="flex items-start justify-between gap-2 mb-1">
+              <div className="min-w-0">
+                {preview.reference_code && (
+                  <span className="font-mono text-xs text-purple-800 mr-2">
+                    {preview.reference_code}
+                  </span>
+                )}
+                {preview.title && (
+                  <span className="font-semibold text-gray-900">
+                    {preview.title}
+                  </span>
+                )}
+              </div>
+              <button
+                onClick={() => onUnpin(preview.id)}
+                className="text-gray-400 hover:text-gray-600 transition-colors flex-shrink-0"
+                aria-label="Unpin"
+              >
+                <X size={14} />
+              </button>
+            </div>
+            {preview.text && (
+              <p className="leading-relaxed text-gray-600">{preview.text}</p>
+            )}
+            <button
+              onClick={() => onNavigate(preview.id)}
+              className="mt-2 text-xs font-medium text-blue-600 hover:text-blue-800"
+            >
+              Go to
+            </button>
+          </div>
+        ))}
+      </div>
+    </aside>
+  );
+};
+
+export default PinnedPreviewsPanel;
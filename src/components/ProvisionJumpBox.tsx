@@ -0,0 +1,180 @@
+// src/components/ProvisionJumpBox.tsx
+import React, { useMemo, useState } from "react";
+import { CornerDownLeft, Hash } from "lucide-react";
+import {
+  ReferenceCodeIndex,
+  ReferenceCodeMatch,
+  resolveReferenceCode,
+  suggestReferenceCodes,
+} from "@/utils/referenceCodes";
+
+interface ProvisionJumpBoxProps {
+  index: ReferenceCodeIndex;
+  getTitle: (id: number) => string | null;
+  onJump: (id: number) => void;
+}
+
+// "Go to provision" input that autocompletes against every reference code
+const ProvisionJumpBox: React.FC<ProvisionJumpBoxProps> = ({
+  index,
+  getTitle,
+  onJump,
+}) => {
+  const [value, setValue] = useState("");
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  // A typed code with no exact match, and the nearest provision to offer
+  const [unmatched, setUnmatched] = useState<{
+    code: string;
+    closest: ReferenceCodeMatch | null;
+  } | null>(null);
+
+  const suggestions = useMemo(
+    () => suggestReferenceCodes(index, value),
+    [index, value]
+  );
+
+  // Exact matches (typed or resolved from shorthand) jump even without a
+  // list; anything else only suggests the closest match
+  const resolved = useMemo(
+    () => (value.trim() ? resolveReferenceCode(index, value) : null),
+    [index, value]
+  );
+
+  const jump = (id: number) => {
+    onJump(id);
+    setValue("");
+    setOpen(false);
+    setUnmatched(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setOpen(true);
+      setActiveIndex((prev) =>
+        Math.max(0, Math.min(prev + 1, suggestions.length - 1))
+      );
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActiveIndex((prev) => Math.max(prev - 1, 0));
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      const suggestion = open ? suggestions[activeIndex] : undefined;
+      if (suggestion) {
+        jump(suggestion.id);
+      } else if (resolved?.exact) {
+        jump(resolved.id);
+      } else if (value.trim()) {
+        setUnmatched({ code: value.trim(), closest: resolved });
+      }
+    } else if (e.key === "Escape") {
+      setOpen(false);
+      setUnmatched(null);
+    }
+  };
+
+  const listId = "provision-jump-suggestions";
+
+  return (
+    <div className="relative w-44 flex-shrink-0">
+      <Hash
+        className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400"
+        size={16}
+      />
+      <input
+        type="text"
+        role="combobox"
+        aria-label="Go to provision"
+        aria-expanded={open && suggestions.length > 0}
+        aria-controls={listId}
+        aria-activedescendant={
+          open && suggestions[activeIndex]
+            ? `${listId}-${suggestions[activeIndex].id}`
+            : undefined
+        }
+        aria-autocomplete="list"
+        placeholder="Go to 9.10.14"
+        className="w-full pl-9 pr-3 py-3 border text-black border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm bg-white shadow-sm transition-all font-mono"
+        value={value}
+        onChange={(e) => {
+          setValue(e.target.value);
+          setActiveIndex(0);
+          setUnmatched(null);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+      />
+
+      {unmatched && (
+        <div
+          role="status"
+          className="absolute left-0 top-full z-40 mt-2 w-96 rounded-xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-900 shadow-lg"
+        >
+          No provision matches{" "}
+          <span className="font-mono font-semibold">{unmatched.code}</span>.
+          {unmatched.closest && (
+            <>
+              {" "}
+              Closest match:{" "}
+              <button
+                // mousedown fires before the input blurs
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  jump(unmatched.closest!.id);
+                }}
+                className="font-mono font-semibold text-blue-700 underline hover:text-blue-900"
+              >
+                {unmatched.closest.code}
+              </button>{" "}
+              {getTitle(unmatched.closest.id)}
+            </>
+          )}
+        </div>
+      )}
+
+      {open && suggestions.length > 0 && (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute left-0 top-full z-40 mt-2 w-96 max-h-80 overflow-y-auto rounded-xl border border-gray-200 bg-white py-1 shadow-lg"
+        >
+          {suggestions.map((suggestion, i) => (
+            <li
+              key={suggestion.id}
+              id={`${listId}-${suggestion.id}`}
+              role="option"
+              aria-selected={i === activeIndex}
+              // mousedown fires before the input blurs and closes the list
+              onMouseDown={(e) => {
+                e.preventDefault();
+                jump(suggestion.id);
+              }}
+              onMouseEnter={() => setActiveIndex(i)}
+              className={`flex items-center gap-3 px-4 py-2 text-sm cursor-pointer ${
+                i === activeIndex ? "bg-blue-50" : ""
+              }`}
+            >
+              <span className="font-mono text-xs text-blue-600 flex-shrink-0">
+                {suggestion.code}
+              </span>
+              <span className="truncate text-gray-700">
+                {getTitle(suggestion.id)}
+              </span>
+              {i === activeIndex && (
+                <CornerDownLeft
+                  size={12}
+                  className="ml-auto flex-shrink-0 text-gray-400"
+                />
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ProvisionJumpBox;
@@ -0,0 +1,152 @@
+// src/components/ReferenceLink.tsx
+import React, { useEffect, useRef, useState } from "react";
+import { ExternalLink, Pin } from "lucide-react";
+import { ProvisionPreview } from "@/utils/previews";
+
+interface ReferenceLinkProps {
+  text: string;
+  // Address of the target, for opening it in a new tab or copying the link
+  href?: string;
+  preview: ProvisionPreview | null;
+  onNavigate: () => void;
+  onPin: (preview: ProvisionPreview) => void;
+  // Rendered in place of text, e.g. with highlights applied
+  children?: React.ReactNode;
+}
+
+const HOVER_DELAY = 300;
+const LONG_PRESS_DELAY = 500;
+
+// Cross-reference with a hover (or long-press on touch) preview of its target
+const ReferenceLink: React.FC<ReferenceLinkProps> = ({
+  text,
+  href,
+  preview,
+  onNavigate,
+  onPin,
+  children,
+}) => {
+  const [open, setOpen] = useState(false);
+  const timer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const longPressed = useRef(false);
+
+  const clearTimer = () => {
+    if (timer.current) {
+      clearTimeout(timer.current);
+      timer.current = null;
+    }
+  };
+
+  useEffect(() => clearTimer, []);
+
+  const openAfter = (delay: number, onOpen?: () => void) => {
+    clearTimer();
+    timer.current = setTimeout(() => {
+      setOpen(true);
+      onOpen?.();
+    }, delay);
+  };
+
+  return (
+    <span
+      className="relative inline"
+      onMouseEnter={() => preview && openAfter(HOVER_DELAY)}
+      onMouseLeave={() => {
+        clearTimer();
+        setOpen(false);
+      }}
+      onFocus={() => preview && setOpen(true)}
+      onBlur={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node)) {
+          setOpen(false);
+        }
+      }}
+    >
+      <a
+        href={href ?? "#"}
+        className=" text-purple-800 px-1 rounded cursor-pointer  transition-colors borde font-medium focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-500"
+        title={preview ? undefined : `Click to view definition of ${text}`}
+        onKeyDown={(e) => {
+          if (e.key === "Escape") setOpen(false);
+        }}
+        onClick={(e) => {
+          e.stopPropagation();
+          // Modified clicks open the link in a new tab or window as usual
+          if (href && (e.metaKey || e.ctrlKey || e.shiftKey || e.altKey)) {
+            return;
+          }
+          e.preventDefault();
+          // The click that ends a long press only opens the preview
+          if (longPressed.current) {
+            longPressed.current = false;
+            return;
+          }
+          onNavigate();
+        }}
+        onTouchStart={() => {
+          longPressed.current = false;
+          if (preview) {
+            openAfter(LONG_PRESS_DELAY, () => {
+              longPressed.current = true;
+            });
+          }
+        }}
+        onTouchEnd={clearTimer}
+        onTouchMove={clearTimer}
+      >
+        {children ?? text}
+        <ExternalLink size={12} className="inline ml-1" aria-hidden="true" />
+      </a>
+
+      {open && preview && (
+        <span
+          role="tooltip"
+          data-annotation-ignore
+          className="absolute left-0 top-full z-30 mt-1 block w-96 rounded-lg border border-purple-200 bg-white p-3 text-left text-sm font-normal text-gray-700 shadow-lg"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <span className="block mb-1">
+            {preview.reference_code && (
+              <span className="font-mono text-xs text-purple-800 mr-2">
+                {preview.reference_code}
+              </span>
+            )}
+            {preview.title && (
+              <span className="font-semibold text-gray-900">
+                {preview.title}
+              </span>
+            )}
+          </span>
+          {preview.text && (
+            <span className="block leading-relaxed text-gray-600">
+              {preview.text}
+            </span>
+          )}
+          <span className="mt-2 flex gap-3">
+            <button
+              onClick={() => {
+                setOpen(false);
+                onNavigate();
+              }}
+              className="text-xs font-medium text-blue-600 hover:text-blue-800"
+            >
+              Go to
+            </button>
+            <button
+              onClick={() => {
+                setOpen(false);
+                onPin(preview);
+              }}
+              className="flex items-center gap-1 text-xs font-medium text-gray-600 hover:text-gray-900"
+            >
+              <Pin size={12} />
+              Pin
+            </button>
+          </span>
+        </span>
+      )}
+    </span>
+  );
+};
+
+export default ReferenceLink;
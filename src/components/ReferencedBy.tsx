@@ -0,0 +1,67 @@
+// src/components/ReferencedBy.tsx
+import React, { useState } from "react";
+import { ChevronRight, CornerUpLeft } from "lucide-react";
+import { Backlink } from "@/utils/backlinks";
+
+interface ReferencedByProps {
+  backlinks: Backlink[];
+  onNavigate: (id: number) => void;
+}
+
+// Collapsible list of provisions that refer to the current one
+const ReferencedBy: React.FC<ReferencedByProps> = ({
+  backlinks,
+  onNavigate,
+}) => {
+  const [expanded, setExpanded] = useState(false);
+
+  if (backlinks.length === 0) return null;
+
+  return (
+    <div className="mt-2 text-sm" onClick={(e) => e.stopPropagation()}>
+      <button
+        onClick={() => setExpanded((prev) => !prev)}
+        aria-expanded={expanded}
+        className="flex items-center gap-1 text-xs font-medium text-gray-500 hover:text-gray-800 transition-colors"
+      >
+        <ChevronRight
+          size={12}
+          className={`transition-transform ${
+            expanded ? "transform rotate-90" : ""
+          }`}
+        />
+        Referenced by ({backlinks.length})
+      </button>
+
+      {expanded && (
+        <ul className="mt-1 ml-4 space-y-1 border-l-2 border-purple-100 pl-3">
+          {backlinks.map((link) => (
+            <li key={link.sourceId}>
+              <button
+                onClick={() => onNavigate(link.sourceId)}
+                className="group flex w-full items-start gap-2 text-left rounded px-2 py-1 hover:bg-purple-50 transition-colors"
+              >
+                <CornerUpLeft
+                  size={12}
+                  className="mt-1 flex-shrink-0 text-purple-700"
+                />
+                <span className="min-w-0">
+                  {link.sourceCode && (
+                    <span className="font-mono text-xs text-purple-800 mr-2">
+                      {link.sourceCode}
+                    </span>
+                  )}
+                  <span className="text-xs text-gray-600 group-hover:text-gray-900">
+                    {link.snippet}
+                  </span>
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ReferencedBy;
@@ -0,0 +1,89 @@
+// src/components/SubtreeExportMenu.tsx
+import React, { useEffect, useRef, useState } from "react";
+import { Download, Loader2 } from "lucide-react";
+import { SubtreeExportFormat } from "@/utils/subtreeExport";
+
+interface SubtreeExportMenuProps {
+  label: string;
+  onExport: (format: SubtreeExportFormat) => Promise<void>;
+}
+
+const FORMATS: { format: SubtreeExportFormat; label: string }[] = [
+  { format: "markdown", label: "Markdown (.md)" },
+  { format: "html", label: "HTML (.html)" },
+  { format: "docx", label: "Word (.docx)" },
+];
+
+// Small download menu shown on navigation nodes
+const SubtreeExportMenu: React.FC<SubtreeExportMenuProps> = ({
+  label,
+  onExport,
+}) => {
+  const [open, setOpen] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [open]);
+
+  return (
+    <div
+      ref={menuRef}
+      className="relative flex-shrink-0"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <button
+        onClick={() => setOpen((prev) => !prev)}
+        className={`p-1 rounded text-gray-400 hover:text-gray-700 hover:bg-gray-200 transition-opacity ${
+          open || exporting
+            ? "opacity-100"
+            : "opacity-0 group-hover:opacity-100"
+        }`}
+        title={`Export ${label}`}
+        aria-label={`Export ${label}`}
+        aria-haspopup="menu"
+        aria-expanded={open}
+      >
+        {exporting ? (
+          <Loader2 size={14} className="animate-spin" />
+        ) : (
+          <Download size={14} />
+        )}
+      </button>
+
+      {open && (
+        <div
+          role="menu"
+          className="absolute right-0 top-full z-30 mt-1 w-40 rounded-lg border border-gray-200 bg-white py-1 shadow-lg"
+        >
+          {FORMATS.map((option) => (
+            <button
+              key={option.format}
+              role="menuitem"
+              onClick={async () => {
+                setOpen(false);
+                setExporting(true);
+                try {
+                  await onExport(option.format);
+                } finally {
+                  setExporting(false);
+                }
+              }}
+              className="block w-full px-3 py-2 text-left text-sm text-gray-700 hover:bg-gray-100"
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SubtreeExportMenu;
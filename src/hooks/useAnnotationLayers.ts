@@ -0,0 +1,20 @@
+// src/hooks/useAnnotationLayers.ts
+import { useEffect, useState } from "react";
+import { AnnotationLayer, layerService } from "@/services/layerService";
+
+// Imported annotation layers kept in sync with local storage
+export const useAnnotationLayers = () => {
+  const [layers, setLayers] = useState<AnnotationLayer[]>([]);
+
+  useEffect(() => {
+    setLayers(layerService.getAll());
+    return layerService.subscribe(() => setLayers(layerService.getAll()));
+  }, []);
+
+  return {
+    layers,
+    add: layerService.add,
+    setVisible: layerService.setVisible,
+    remove: layerService.remove,
+  };
+};
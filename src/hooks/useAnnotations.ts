@@ -0,0 +1,46 @@
+// src/hooks/useAnnotations.ts
+import { useEffect, useState } from "react";
+import { Annotation } from "@/types/annotation";
+import { AnnotationStore, annotationStore } from "@/services/annotationStore";
+
+// Annotations of one document, loaded from and written through a store
+export const useAnnotations = (
+  documentId: string | undefined,
+  store: AnnotationStore = annotationStore
+) => {
+  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+
+  useEffect(() => {
+    if (!documentId) {
+      setAnnotations([]);
+      return;
+    }
+    let cancelled = false;
+    store
+      .list(documentId)
+      .then((loaded) => {
+        if (!cancelled) setAnnotations(loaded);
+      })
+      .catch((error) => console.error("Error loading annotations:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [documentId, store]);
+
+  const save = async (annotation: Annotation) => {
+    const saved = await store.save(annotation);
+    setAnnotations((prev) => [
+      ...prev.filter((existing) => existing.id !== saved.id),
+      saved,
+    ]);
+    return saved;
+  };
+
+  const remove = async (id: string) => {
+    if (!documentId) return;
+    await store.remove(documentId, id);
+    setAnnotations((prev) => prev.filter((annotation) => annotation.id !== id));
+  };
+
+  return { annotations, save, remove };
+};
@@ -0,0 +1,27 @@
+// src/hooks/useBookmarks.ts
+import { useEffect, useMemo, useState } from "react";
+import { Bookmark, bookmarkService } from "@/services/bookmarkService";
+
+// Bookmarks kept in sync with local storage across components and tabs
+export const useBookmarks = () => {
+  const [bookmarks, setBookmarks] = useState<Bookmark[]>([]);
+
+  useEffect(() => {
+    setBookmarks(bookmarkService.getAll());
+    return bookmarkService.subscribe(() =>
+      setBookmarks(bookmarkService.getAll())
+    );
+  }, []);
+
+  const keys = useMemo(
+    () => new Set(bookmarks.map((bookmark) => bookmark.key)),
+    [bookmarks]
+  );
+
+  return {
+    bookmarks,
+    isBookmarked: (key: string) => keys.has(key),
+    add: bookmarkService.add,
+    remove: bookmarkService.remove,
+  };
+};
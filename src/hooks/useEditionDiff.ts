@@ -0,0 +1,66 @@
+// src/hooks/useEditionDiff.ts
+import { useEffect, useState } from "react";
+import { HierarchyNode } from "@/types/buildingCode";
+import { EditionDiff, compareEditions } from "@/utils/editionDiff";
+import type {
+  EditionDiffWorkerRequest,
+  EditionDiffWorkerResponse,
+} from "@/workers/editionDiff.worker";
+
+// Compares two editions in a Web Worker, since matching two full codes takes
+// seconds; progress is the fraction done while the comparison runs. Where
+// workers are unavailable the comparison runs on the main thread instead.
+export const useEditionDiff = (
+  base: HierarchyNode[] | null,
+  target: HierarchyNode[] | null
+) => {
+  const [diff, setDiff] = useState<EditionDiff | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+
+  useEffect(() => {
+    setDiff(null);
+    if (!base || !target) {
+      setProgress(null);
+      return;
+    }
+    setProgress(0);
+
+    const compareInPage = () => {
+      setDiff(compareEditions(base, target));
+      setProgress(null);
+    };
+
+    let worker: Worker;
+    try {
+      worker = new Worker(
+        new URL("../workers/editionDiff.worker.ts", import.meta.url)
+      );
+    } catch (error) {
+      console.error("Comparison worker unavailable, comparing in page:", error);
+      compareInPage();
+      return;
+    }
+
+    worker.onmessage = (event: MessageEvent<EditionDiffWorkerResponse>) => {
+      if (event.data.type === "progress") {
+        setProgress(event.data.fraction);
+      } else {
+        setDiff(event.data.diff);
+        setProgress(null);
+        worker.terminate();
+      }
+    };
+    worker.onerror = (error) => {
+      console.error("Comparison worker failed, comparing in page:", error);
+      worker.terminate();
+      compareInPage();
+    };
+
+    const request: EditionDiffWorkerRequest = { base, target };
+    worker.postMessage(request);
+
+    return () => worker.terminate();
+  }, [base, target]);
+
+  return { diff, progress };
+};
@@ -0,0 +1,109 @@
+// src/hooks/useNavigationHistory.ts
+import { useCallback, useRef, useState } from "react";
+
+export interface HistoryEntry {
+  // null is the document opened without a target provision
+  id: number | null;
+  label: string;
+  scrollTop: number | null;
+}
+
+export interface NavigationHistory {
+  entries: HistoryEntry[];
+  cursor: number;
+  canGoBack: boolean;
+  canGoForward: boolean;
+  // Record a new jump from the current entry, dropping any forward entries
+  record: (id: number, label: string, currentScrollTop: number) => void;
+  // Reconcile the stack with the provision the URL now points at. Returns the
+  // entry to restore, or null when the URL already matches the current entry.
+  sync: (
+    id: number | null,
+    label: string,
+    currentScrollTop: number
+  ) => HistoryEntry | null;
+}
+
+// In-viewer history of provision jumps. The browser history holds one URL per
+// entry, so back/forward buttons and the in-viewer controls stay in step.
+export const useNavigationHistory = (): NavigationHistory => {
+  const entriesRef = useRef<HistoryEntry[]>([]);
+  const cursorRef = useRef(-1);
+  const [, setVersion] = useState(0);
+
+  const commit = () => setVersion((version) => version + 1);
+
+  const saveScroll = (scrollTop: number) => {
+    const current = entriesRef.current[cursorRef.current];
+    if (current) {
+      current.scrollTop = scrollTop;
+    }
+  };
+
+  const record = useCallback(
+    (id: number, label: string, currentScrollTop: number) => {
+      const current = entriesRef.current[cursorRef.current];
+      if (current?.id === id) return;
+
+      saveScroll(currentScrollTop);
+      entriesRef.current = [
+        ...entriesRef.current.slice(0, cursorRef.current + 1),
+        { id, label, scrollTop: null },
+      ];
+      cursorRef.current = entriesRef.current.length - 1;
+      commit();
+    },
+    []
+  );
+
+  const sync = useCallback(
+    (id: number | null, label: string, currentScrollTop: number) => {
+      const entries = entriesRef.current;
+      const cursor = cursorRef.current;
+
+      if (entries.length === 0) {
+        entriesRef.current = [{ id, label, scrollTop: null }];
+        cursorRef.current = 0;
+        commit();
+        return entriesRef.current[0];
+      }
+
+      if (entries[cursor]?.id === id) return null;
+
+      saveScroll(currentScrollTop);
+
+      // Browser back/forward moves one step; check neighbours before the rest
+      const candidates = [cursor - 1, cursor + 1];
+      for (let distance = 2; distance < entries.length; distance++) {
+        candidates.push(cursor - distance, cursor + distance);
+      }
+      const target = candidates.find(
+        (index) => index >= 0 && index < entries.length && entries[index].id === id
+      );
+
+      if (target !== undefined) {
+        cursorRef.current = target;
+      } else {
+        // The URL was changed by hand - treat it as a fresh jump
+        entriesRef.current = [
+          ...entries.slice(0, cursor + 1),
+          { id, label, scrollTop: null },
+        ];
+        cursorRef.current = entriesRef.current.length - 1;
+      }
+
+      commit();
+      return entriesRef.current[cursorRef.current];
+    },
+    []
+  );
+
+  return {
+    entries: entriesRef.current,
+    cursor: cursorRef.current,
+    canGoBack: cursorRef.current > 0,
+    canGoForward: cursorRef.current < entriesRef.current.length - 1,
+    record,
+    sync,
+  };
+};
@@ -0,0 +1,63 @@
+// src/hooks/useOfflineDocuments.ts
+import { useEffect, useState } from "react";
+import { offlineStore } from "@/services/offlineStore";
+import { libraryService } from "@/services/libraryService";
+import { buildingCodeService } from "@/services/buildingCodeService";
+import { cachePagesForOffline } from "@/utils/serviceWorker";
+
+// Which documents are saved for offline reading, and toggling that per document
+export const useOfflineDocuments = () => {
+  const [savedIds, setSavedIds] = useState<Set<string>>(new Set());
+  const [pendingIds, setPendingIds] = useState<Set<string>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = () =>
+      offlineStore
+        .getIds()
+        .then((ids) => setSavedIds(new Set(ids)))
+        .catch((err) => console.error("Error reading offline documents:", err));
+    load();
+    return offlineStore.subscribe(load);
+  }, []);
+
+  const setPending = (id: string, pending: boolean) =>
+    setPendingIds((prev) => {
+      const next = new Set(prev);
+      if (pending) {
+        next.add(id);
+      } else {
+        next.delete(id);
+      }
+      return next;
+    });
+
+  const toggle = async (id: string) => {
+    setPending(id, true);
+    setError(null);
+    try {
+      if (savedIds.has(id)) {
+        await offlineStore.remove(id);
+      } else {
+        const [document, content] = await Promise.all([
+          libraryService.getPdfDocumentById(id),
+          buildingCodeService.getDocumentContent(id),
+        ]);
+        await offlineStore.save(id, document, content);
+        await cachePagesForOffline([`/document/${id}`]);
+      }
+    } catch (err) {
+      setError("Could not save the document for offline reading.");
+      console.error("Error toggling offline document:", err);
+    } finally {
+      setPending(id, false);
+    }
+  };
+
+  return {
+    isSaved: (id: string) => savedIds.has(id),
+    isPending: (id: string) => pendingIds.has(id),
+    toggle,
+    error,
+  };
+};
@@ -0,0 +1,20 @@
+// src/hooks/useOnlineStatus.ts
+import { useEffect, useState } from "react";
+
+// navigator.onLine, updated on the browser's online/offline events
+export const useOnlineStatus = () => {
+  const [online, setOnline] = useState(true);
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    update();
+    window.addEventListener("online", update);
+    window.addEventListener("offline", update);
+    return () => {
+      window.removeEventListener("online", update);
+      window.removeEventListener("offline", update);
+    };
+  }, []);
+
+  return online;
+};
@@ -0,0 +1,104 @@
+// src/hooks/useSearchIndex.ts
+import { useCallback, useEffect, useRef, useState } from "react";
+import { HierarchyNode } from "@/types/buildingCode";
+import {
+  IndexedDocument,
+  SearchHit,
+  SearchIndex,
+  buildSearchIndex,
+  searchDocuments,
+  toIndexedDocuments,
+} from "@/utils/searchIndex";
+import type {
+  SearchWorkerRequest,
+  SearchWorkerResponse,
+} from "@/workers/searchIndex.worker";
+
+interface PendingSearch {
+  query: string;
+  resolve: (hits: SearchHit[]) => void;
+}
+
+// Ranked full-text search over a loaded document. The index is built once
+// per document in a Web Worker so typing never waits on it; where workers
+// are unavailable or fail to load, it is built on the main thread instead.
+// version counts rebuilt indexes so callers can search again; searches
+// still pending when the content changes resolve empty.
+export const useSearchIndex = (
+  nodes: HierarchyNode[],
+  fullCodes: Map<number, string>
+) => {
+  const worker = useRef<Worker | null>(null);
+  const documents = useRef<IndexedDocument[]>([]);
+  const localIndex = useRef<SearchIndex | null>(null);
+  const pending = useRef(new Map<number, PendingSearch>());
+  const nextId = useRef(0);
+  const [version, setVersion] = useState(0);
+
+  const searchLocally = (query: string) => {
+    if (!localIndex.current) {
+      localIndex.current = buildSearchIndex(documents.current);
+    }
+    return searchDocuments(localIndex.current, query);
+  };
+
+  useEffect(() => {
+    documents.current = toIndexedDocuments(nodes, fullCodes);
+    localIndex.current = null;
+    setVersion((previous) => previous + 1);
+    const searches = pending.current;
+
+    let instance: Worker | null = null;
+    try {
+      instance = new Worker(
+        new URL("../workers/searchIndex.worker.ts", import.meta.url)
+      );
+    } catch (error) {
+      console.error("Search worker unavailable, indexing in page:", error);
+      return;
+    }
+
+    instance.onmessage = (event: MessageEvent<SearchWorkerResponse>) => {
+      const search = pending.current.get(event.data.id);
+      pending.current.delete(event.data.id);
+      search?.resolve(event.data.hits);
+    };
+    instance.onerror = (error) => {
+      console.error("Search worker failed, indexing in page:", error);
+      instance?.terminate();
+      worker.current = null;
+      pending.current.forEach((search) =>
+        search.resolve(searchLocally(search.query))
+      );
+      pending.current.clear();
+    };
+
+    const build: SearchWorkerRequest = {
+      type: "build",
+      documents: documents.current,
+    };
+    instance.postMessage(build);
+    worker.current = instance;
+
+    return () => {
+      instance?.terminate();
+      worker.current = null;
+      searches.forEach((search) => search.resolve([]));
+      searches.clear();
+    };
+  }, [nodes, fullCodes]);
+
+  const search = useCallback((query: string): Promise<SearchHit[]> => {
+    if (!worker.current) {
+      return Promise.resolve(searchLocally(query));
+    }
+    const id = ++nextId.current;
+    const request: SearchWorkerRequest = { type: "search", id, query };
+    return new Promise((resolve) => {
+      pending.current.set(id, { query, resolve });
+      worker.current!.postMessage(request);
+    });
+  }, []);
+
+  return { search, version };
+};
@@ -0,0 +1,204 @@
+// src/hooks/useVirtualRows.ts
+import {
+  RefObject,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+
+export interface VirtualRow {
+  index: number;
+  key: number;
+  top: number;
+}
+
+interface UseVirtualRowsOptions {
+  keys: number[];
+  // Scrolling element that contains the list
+  containerRef: RefObject<HTMLDivElement | null>;
+  // Element wrapping the rows, used to account for content above the list
+  listRef: RefObject<HTMLDivElement | null>;
+  estimatedHeight?: number;
+  // Extra pixels rendered above and below the viewport
+  overscan?: number;
+}
+
+export interface VirtualRows {
+  rows: VirtualRow[];
+  totalHeight: number;
+  measureRef: (key: number) => (element: HTMLDivElement | null) => void;
+  scrollToIndex: (index: number) => void;
+  // Index of the row at the top of the scrolled viewport
+  firstVisibleIndex: () => number;
+}
+
+// Windowed rendering for a flat list of variable-height rows. Heights start
+// from an estimate and are replaced by measurements once rows have mounted.
+export const useVirtualRows = ({
+  keys,
+  containerRef,
+  listRef,
+  estimatedHeight = 120,
+  overscan = 800,
+}: UseVirtualRowsOptions): VirtualRows => {
+  const heights = useRef(new Map<number, number>());
+  const elements = useRef(new Map<number, HTMLDivElement>());
+  const observer = useRef<ResizeObserver | null>(null);
+  const heightsChanged = useRef(false);
+  const frame = useRef<number | null>(null);
+  // Snapshot of the measured heights, taken at most once per frame
+  const [measuredHeights, setMeasuredHeights] = useState(
+    () => new Map<number, number>()
+  );
+  const [viewport, setViewport] = useState({ scrollTop: 0, height: 0 });
+
+  const scheduleUpdate = useCallback(() => {
+    if (frame.current !== null) return;
+    frame.current = requestAnimationFrame(() => {
+      frame.current = null;
+      const container = containerRef.current;
+      if (container) {
+        setViewport({
+          scrollTop: container.scrollTop,
+          height: container.clientHeight,
+        });
+      }
+      if (heightsChanged.current) {
+        heightsChanged.current = false;
+        setMeasuredHeights(new Map(heights.current));
+      }
+    });
+  }, [containerRef]);
+
+  useEffect(() => {
+    observer.current = new ResizeObserver((entries) => {
+      let changed = false;
+      entries.forEach((entry) => {
+        const element = entry.target as HTMLDivElement;
+        const key = Number(element.dataset.rowKey);
+        const height = element.getBoundingClientRect().height;
+        if (heights.current.get(key) !== height) {
+          heights.current.set(key, height);
+          changed = true;
+        }
+      });
+      if (changed) {
+        heightsChanged.current = true;
+        scheduleUpdate();
+      }
+    });
+    elements.current.forEach((element) => observer.current!.observe(element));
+
+    return () => {
+      observer.current?.disconnect();
+      observer.current = null;
+      if (frame.current !== null) cancelAnimationFrame(frame.current);
+    };
+  }, [scheduleUpdate]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    container.addEventListener("scroll", scheduleUpdate, { passive: true });
+    window.addEventListener("resize", scheduleUpdate);
+    scheduleUpdate();
+    return () => {
+      container.removeEventListener("scroll", scheduleUpdate);
+      window.removeEventListener("resize", scheduleUpdate);
+    };
+  }, [containerRef, scheduleUpdate]);
+
+  // offsets[i] is the top of row i; offsets[keys.length] the total height
+  const offsets = useMemo(() => {
+    const result = new Float64Array(keys.length + 1);
+    keys.forEach((key, index) => {
+      result[index + 1] =
+        result[index] + (measuredHeights.get(key) ?? estimatedHeight);
+    });
+    return result;
+  }, [keys, measuredHeights, estimatedHeight]);
+
+  const listOffset = () => {
+    const container = containerRef.current;
+    const list = listRef.current;
+    if (!container || !list) return 0;
+    return (
+      list.getBoundingClientRect().top -
+      container.getBoundingClientRect().top +
+      container.scrollTop
+    );
+  };
+
+  // First row whose bottom edge is below the given offset
+  const findIndex = (offset: number) => {
+    let low = 0;
+    let high = keys.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (offsets[mid + 1] <= offset) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  };
+
+  const start = viewport.scrollTop - listOffset() - overscan;
+  const end = start + viewport.height + overscan * 2;
+  const rows: VirtualRow[] = [];
+  for (
+    let index = findIndex(Math.max(start, 0));
+    index < keys.length && offsets[index] < end;
+    index++
+  ) {
+    rows.push({ index, key: keys[index], top: offsets[index] });
+  }
+
+  // Stable callback per row so React does not detach and re-attach on render
+  const refCallbacks = useRef(
+    new Map<number, (element: HTMLDivElement | null) => void>()
+  );
+  const measureRef = useCallback((key: number) => {
+    let callback = refCallbacks.current.get(key);
+    if (!callback) {
+      callback = (element: HTMLDivElement | null) => {
+        const previous = elements.current.get(key);
+        if (previous && previous !== element) {
+          observer.current?.unobserve(previous);
+          elements.current.delete(key);
+        }
+        if (element) {
+          element.dataset.rowKey = key.toString();
+          elements.current.set(key, element);
+          observer.current?.observe(element);
+        }
+      };
+      refCallbacks.current.set(key, callback);
+    }
+    return callback;
+  }, []);
+
+  const scrollToIndex = (index: number) => {
+    const container = containerRef.current;
+    if (!container || index < 0 || index >= keys.length) return;
+    container.scrollTo({ top: listOffset() + offsets[index] - 20 });
+    scheduleUpdate();
+  };
+
+  const firstVisibleIndex = () => {
+    const container = containerRef.current;
+    if (!container) return 0;
+    return findIndex(Math.max(container.scrollTop - listOffset(), 0));
+  };
+
+  return {
+    rows,
+    totalHeight: offsets[keys.length],
+    measureRef,
+    scrollToIndex,
+    firstVisibleIndex,
+  };
+};
@@ -1,9 +1,15 @@
 // src/pages/_app.tsx
 import "@/styles/globals.css";
 import type { AppProps } from "next/app";
+import { useEffect } from "react";
 import Header from "@/components/Header";
+import { registerServiceWorker } from "@/utils/serviceWorker";
 
 export default function App({ Component, pageProps }: AppProps) {
+  useEffect(() => {
+    registerServiceWorker();
+  }, []);
+
   return (
     <>
       <Header />
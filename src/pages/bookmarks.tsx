@@ -0,0 +1,218 @@
+// src/pages/bookmarks.tsx
+import React, { useMemo } from "react";
+import {
+  Bookmark as BookmarkIcon,
+  Download,
+  Globe,
+  Trash2,
+} from "lucide-react";
+import { useBookmarks } from "@/hooks/useBookmarks";
+import { Bookmark } from "@/services/bookmarkService";
+import { annotationStore } from "@/services/annotationStore";
+import { createExport, downloadExport } from "@/utils/annotationExport";
+import { buildProvisionPath } from "@/utils/referenceCodes";
+
+interface DocumentGroup {
+  documentId: string;
+  documentTitle: string;
+  year: number | null;
+  items: Bookmark[];
+}
+
+interface JurisdictionGroup {
+  jurisdictionName: string;
+  documents: DocumentGroup[];
+}
+
+// Open the viewer at the bookmarked provision, by its Division-scoped code
+// when there is one so Div A and Div B provisions with the same number differ
+const bookmarkUrl = (bookmark: Bookmark) =>
+  bookmark.referenceCode
+    ? buildProvisionPath(bookmark.documentId, bookmark.referenceCode)
+    : `/document/${bookmark.documentId}?highlight=${bookmark.contentId}`;
+
+const Bookmarks: React.FC = () => {
+  const { bookmarks, remove } = useBookmarks();
+
+  const groups = useMemo(() => {
+    const byJurisdiction: { [name: string]: JurisdictionGroup } = {};
+
+    bookmarks.forEach((bookmark) => {
+      const jurisdictionName = bookmark.jurisdictionName || "Other";
+      if (!byJurisdiction[jurisdictionName]) {
+        byJurisdiction[jurisdictionName] = { jurisdictionName, documents: [] };
+      }
+
+      const jurisdiction = byJurisdiction[jurisdictionName];
+      let document = jurisdiction.documents.find(
+        (group) => group.documentId === bookmark.documentId
+      );
+      if (!document) {
+        document = {
+          documentId: bookmark.documentId,
+          documentTitle: bookmark.documentTitle || "Untitled document",
+          year: bookmark.year,
+          items: [],
+        };
+        jurisdiction.documents.push(document);
+      }
+      document.items.push(bookmark);
+    });
+
+    // Provisions in code order within each document
+    Object.values(byJurisdiction).forEach((jurisdiction) =>
+      jurisdiction.documents.forEach((document) =>
+        document.items.sort((a, b) =>
+          (a.referenceCode || "").localeCompare(
+            b.referenceCode || "",
+            undefined,
+            {
+              numeric: true,
+            }
+          )
+        )
+      )
+    );
+
+    return Object.values(byJurisdiction).sort((a, b) =>
+      a.jurisdictionName.localeCompare(b.jurisdictionName)
+    );
+  }, [bookmarks]);
+
+  // Notes and bookmarks of the given documents (all when omitted) as a file
+  // others can import as a layer
+  const exportNotes = async (fileName: string, documentIds?: string[]) => {
+    try {
+      const annotations = await annotationStore.listAll();
+      downloadExport(
+        createExport(annotations, bookmarks, documentIds),
+        fileName
+      );
+    } catch (error) {
+      console.error("Error exporting notes:", error);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-white">
+      <div className="max-w-5xl mx-auto px-6 py-6">
+        <div className="flex items-center gap-3 mb-6">
+          <BookmarkIcon className="h-6 w-6 text-black" />
+          <h1 className="text-2xl font-semibold text-black">Bookmarks</h1>
+          <span className="text-sm text-gray-600">({bookmarks.length})</span>
+          <button
+            onClick={() => exportNotes("notes-and-bookmarks")}
+            className="ml-auto flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            title="Export notes, highlights and bookmarks of all documents"
+          >
+            <Download className="h-4 w-4" />
+            Export all
+          </button>
+        </div>
+
+        {bookmarks.length === 0 ? (
+          <div className="text-center py-16 border border-gray-200 rounded-lg">
+            <BookmarkIcon className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-black mb-2">
+              No bookmarks yet
+            </h3>
+            <p className="text-gray-600">
+              Use the bookmark icon next to any provision to save it here.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-8">
+            {groups.map((jurisdiction) => (
+              <section key={jurisdiction.jurisdictionName}>
+                <h2 className="flex items-center gap-2 text-sm font-bold text-gray-700 uppercase tracking-wider mb-3">
+                  <Globe className="h-4 w-4" />
+                  {jurisdiction.jurisdictionName}
+                </h2>
+                <div className="space-y-4">
+                  {jurisdiction.documents.map((document) => (
+                    <div
+                      key={document.documentId}
+                      className="border border-gray-200 rounded-lg"
+                    >
+                      <div className="px-6 py-4 border-b border-gray-200 flex items-start justify-between gap-4">
+                        <div>
+                          <h3 className="text-lg font-semibold text-black">
+                            {document.documentTitle}
+                          </h3>
+                          {document.year && (
+                            <p className="text-sm text-gray-600">
+                              {document.year}
+                            </p>
+                          )}
+                        </div>
+                        <button
+                          onClick={() =>
+                            exportNotes(`notes-${document.documentId}`, [
+                              document.documentId,
+                            ])
+                          }
+                          className="p-2 text-gray-400 hover:text-gray-700 transition-colors"
+                          title="Export notes and bookmarks of this document"
+                          aria-label="Export notes and bookmarks of this document"
+                        >
+                          <Download className="h-4 w-4" />
+                        </button>
+                      </div>
+                      <ul className="divide-y divide-gray-100">
+                        {document.items.map((bookmark) => (
+                          <li
+                            key={bookmark.key}
+                            className="flex items-start gap-4 px-6 py-4 hover:bg-gray-50 transition-colors cursor-pointer group"
+                            onClick={() => {
+                              window.location.href = bookmarkUrl(bookmark);
+                            }}
+                          >
+                            <div className="flex-1 min-w-0">
+                              <div className="flex items-center gap-2 text-blue-600 font-medium">
+                                {bookmark.referenceCode && (
+                                  <span className="font-mono">
+                                    {bookmark.referenceCode}
+                                  </span>
+                                )}
+                                {bookmark.title && (
+                                  <span className="group-hover:underline">
+                                    {bookmark.title}
+                                  </span>
+                                )}
+                                <span className="text-xs text-gray-400 capitalize">
+                                  {bookmark.contentType}
+                                </span>
+                              </div>
+                              {bookmark.snippet &&
+                                bookmark.snippet !== bookmark.title && (
+                                  <p className="text-sm text-gray-700 mt-1 line-clamp-2">
+                                    {bookmark.snippet}
+                                  </p>
+                                )}
+                            </div>
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                remove(bookmark.key);
+                              }}
+                              className="text-gray-400 hover:text-red-600 transition-colors"
+                              aria-label="Remove bookmark"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+              </section>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Bookmarks;
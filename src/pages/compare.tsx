@@ -0,0 +1,176 @@
+// src/pages/compare.tsx
+import React, { useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/router";
+import { Loader2, AlertCircle, GitCompare } from "lucide-react";
+import EditionDiffView from "@/components/EditionDiffView";
+import { libraryService } from "@/services/libraryService";
+import { buildingCodeService } from "@/services/buildingCodeService";
+import { HierarchyNode } from "@/types/buildingCode";
+import { useEditionDiff } from "@/hooks/useEditionDiff";
+
+interface PdfDocument {
+  id: string;
+  title: string;
+  year: number;
+  version?: string;
+  effective_date: string;
+  jurisdiction_name: string;
+  jurisdiction_code: string;
+  document_type_name: string;
+}
+
+const editionLabel = (doc?: PdfDocument) =>
+  doc
+    ? `${doc.title} (${doc.year}${doc.version ? `, v${doc.version}` : ""})`
+    : "";
+
+const CompareEditions: React.FC = () => {
+  const router = useRouter();
+  const baseId = router.query.base as string | undefined;
+  const targetId = router.query.target as string | undefined;
+
+  const [documents, setDocuments] = useState<PdfDocument[]>([]);
+  const [baseContent, setBaseContent] = useState<HierarchyNode[] | null>(null);
+  const [targetContent, setTargetContent] = useState<HierarchyNode[] | null>(
+    null
+  );
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    libraryService
+      .getPdfDocuments()
+      .then(setDocuments)
+      .catch((err) => console.error("Error fetching documents:", err));
+  }, []);
+
+  const baseDocument = documents.find((doc) => doc.id === baseId);
+  const targetDocument = documents.find((doc) => doc.id === targetId);
+
+  // Other editions of the same code: same jurisdiction and document type
+  const editions = useMemo(() => {
+    const reference = baseDocument || targetDocument;
+    return documents
+      .filter(
+        (doc) =>
+          !reference ||
+          (doc.jurisdiction_code === reference.jurisdiction_code &&
+            doc.document_type_name === reference.document_type_name)
+      )
+      .sort((a, b) => a.year - b.year);
+  }, [documents, baseDocument, targetDocument]);
+
+  useEffect(() => {
+    if (!baseId || !targetId) return;
+    let cancelled = false;
+
+    setLoading(true);
+    setError(null);
+    Promise.all([
+      buildingCodeService.getDocumentContent(baseId),
+      buildingCodeService.getDocumentContent(targetId),
+    ])
+      .then(([base, target]) => {
+        if (cancelled) return;
+        setBaseContent(base.content);
+        setTargetContent(target.content);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setError(
+          "Failed to load both editions. Please ensure the backend server is running."
+        );
+        console.error("Error fetching editions:", err);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [baseId, targetId]);
+
+  const { diff, progress } = useEditionDiff(baseContent, targetContent);
+
+  const selectEdition = (key: "base" | "target", id: string) => {
+    router.push(
+      { pathname: router.pathname, query: { ...router.query, [key]: id } },
+      undefined,
+      { shallow: true }
+    );
+  };
+
+  const renderSelect = (key: "base" | "target", value?: string) => (
+    <select
+      value={value || ""}
+      onChange={(e) => selectEdition(key, e.target.value)}
+      className="px-4 py-3 border border-gray-300 rounded-lg text-black bg-white text-sm min-w-0 flex-1"
+    >
+      <option value="" disabled>
+        {key === "base" ? "Older edition..." : "Newer edition..."}
+      </option>
+      {editions.map((doc) => (
+        <option key={doc.id} value={doc.id}>
+          {editionLabel(doc)}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="min-h-screen bg-white">
+      <div className="max-w-7xl mx-auto px-6 py-6">
+        <div className="flex items-center gap-3 mb-6">
+          <GitCompare className="h-6 w-6 text-black" />
+          <h1 className="text-2xl font-semibold text-black">
+            Compare editions
+          </h1>
+        </div>
+
+        <div className="flex flex-col md:flex-row items-stretch md:items-center gap-3 mb-8">
+          {renderSelect("base", baseId)}
+          <span className="text-gray-500 text-center">→</span>
+          {renderSelect("target", targetId)}
+        </div>
+
+        {loading ? (
+          <div className="text-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin mx-auto mb-4 text-black" />
+            <p className="text-gray-600">Loading editions...</p>
+          </div>
+        ) : progress !== null ? (
+          <div className="text-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin mx-auto mb-4 text-black" />
+            <p className="text-gray-600" role="status">
+              Comparing editions... {Math.round(progress * 100)}%
+            </p>
+            <div className="mx-auto mt-4 h-1.5 w-64 overflow-hidden rounded-full bg-gray-200">
+              <div
+                className="h-full bg-black transition-all"
+                style={{ width: `${progress * 100}%` }}
+              />
+            </div>
+          </div>
+        ) : error ? (
+          <div className="text-center py-16">
+            <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
+            <p className="text-gray-600">{error}</p>
+          </div>
+        ) : diff ? (
+          <EditionDiffView
+            diff={diff}
+            baseLabel={editionLabel(baseDocument)}
+            targetLabel={editionLabel(targetDocument)}
+          />
+        ) : (
+          <p className="text-center py-16 text-gray-600">
+            Choose two editions to see what changed between them.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CompareEditions;
@@ -4,6 +4,7 @@ import { useRouter } from "next/router";
 import { Loader2, AlertCircle, RefreshCw } from "lucide-react";
 import BuildingCodeViewer from "@/components/BuildingCodeViewer";
 import { libraryService } from "@/services/libraryService";
+import { offlineStore } from "@/services/offlineStore";
 interface PdfDocument {
   id: string;
   title: string;
@@ -21,7 +22,7 @@ interface PdfDocument {
 
 const DocumentViewer: React.FC = () => {
   const router = useRouter();
-  const { id } = router.query;
+  const { id, ref } = router.query;
 
   const [documentInfo, setDocumentInfo] = useState<PdfDocument | null>(null);
   const [loading, setLoading] = useState(true);
@@ -42,6 +43,14 @@ const DocumentViewer: React.FC = () => {
       const docData = await libraryService.getPdfDocumentById(id as string);
       setDocumentInfo(docData);
     } catch (err) {
+      // Without a connection, fall back to a copy saved for offline reading
+      const offline = await offlineStore
+        .get<PdfDocument>(id as string)
+        .catch(() => null);
+      if (offline) {
+        setDocumentInfo(offline.document);
+        return;
+      }
       setError(
         "Failed to load document data. Please ensure the backend server is running."
       );
@@ -99,6 +108,7 @@ const DocumentViewer: React.FC = () => {
       <BuildingCodeViewer
         documentId={id as string}
         documentInfo={documentInfo || undefined}
+        referenceCode={Array.isArray(ref) ? ref.join("/") : ref}
       />
     </>
   );
@@ -0,0 +1,3 @@
+// src/pages/document/[id]/[...ref].tsx
+// Deep link to a provision by reference code, e.g. /document/abc/9.8.4.1(2)(a)
+export { default } from "../[id]";
@@ -0,0 +1,461 @@
+// src/pages/document/[id]/print.tsx
+import React, {
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { useRouter } from "next/router";
+import { AlertCircle, Loader2, Printer } from "lucide-react";
+import { libraryService } from "@/services/libraryService";
+import { buildingCodeService } from "@/services/buildingCodeService";
+import { HierarchyNode } from "@/types/buildingCode";
+import {
+  formatNodeLabel,
+  getAncestors,
+  indexHierarchy,
+} from "@/utils/hierarchy";
+import { buildReferenceCodeIndex } from "@/utils/referenceCodes";
+import {
+  ExportBlock,
+  ExportRun,
+  buildSubtreeExport,
+} from "@/utils/subtreeExport";
+
+interface PdfDocument {
+  id: string;
+  title: string;
+  year: number;
+  version?: string;
+  jurisdiction_name: string;
+}
+
+// Everything printed under one Part; each chapter starts on a new page and
+// repeats its running header and footer on every page it spans
+interface PrintChapter {
+  key: number;
+  label: string;
+  blocks: ExportBlock[];
+}
+
+// Letter paper with 0.75in margins, matching @page in globals.css
+const CSS_PX_PER_INCH = 96;
+const PAGE_CONTENT_HEIGHT = 9.5 * CSS_PX_PER_INCH;
+
+// Types offered in the picker and listed in the table of contents
+const SELECTABLE_TYPES = ["division", "part", "section"];
+
+const headingLabel = (node: HierarchyNode) => {
+  const label = formatNodeLabel(node);
+  return SELECTABLE_TYPES.includes(node.content_type) && node.title
+    ? `${label} ${node.title}`
+    : label;
+};
+
+const editionCitation = (doc: PdfDocument | null) =>
+  doc
+    ? `${doc.title} · ${doc.jurisdiction_name} · ${doc.year} edition${
+        doc.version ? `, ${doc.version}` : ""
+      }`
+    : "";
+
+const renderRuns = (runs: ExportRun[]) =>
+  runs.map((run, i) =>
+    run.href ? (
+      <a
+        key={i}
+        href={run.internal ? `#${run.href}` : run.href}
+        className="text-purple-800 underline"
+      >
+        {run.text}
+      </a>
+    ) : (
+      <React.Fragment key={i}>{run.text}</React.Fragment>
+    )
+  );
+
+const HEADING_CLASSES = [
+  "text-2xl font-bold mt-2 mb-4",
+  "text-xl font-bold mt-6 mb-3",
+  "text-lg font-semibold mt-5 mb-2",
+  "text-base font-semibold mt-4 mb-2",
+  "text-base font-semibold mt-3 mb-1",
+  "text-sm font-semibold mt-3 mb-1",
+];
+
+const renderBlock = (block: ExportBlock, key: number) => {
+  const code = block.code && (
+    <span className="font-mono text-gray-600 mr-2">{block.code}</span>
+  );
+
+  if (block.headingLevel > 0) {
+    return React.createElement(
+      `h${block.headingLevel}`,
+      {
+        key,
+        id: block.anchor || undefined,
+        className: `${
+          HEADING_CLASSES[block.headingLevel - 1]
+        } text-black break-after-avoid`,
+      },
+      code,
+      renderRuns(block.runs)
+    );
+  }
+
+  return (
+    <p
+      key={key}
+      id={block.anchor || undefined}
+      className="text-sm leading-relaxed text-gray-900 mb-2 break-inside-avoid"
+      style={{ marginLeft: `${block.indent * 2}rem` }}
+    >
+      {code}
+      {renderRuns(block.runs)}
+    </p>
+  );
+};
+
+const PrintDocument: React.FC = () => {
+  const router = useRouter();
+  const id = router.query.id as string | undefined;
+  const nodesParam = router.query.nodes as string | undefined;
+
+  const [documentInfo, setDocumentInfo] = useState<PdfDocument | null>(null);
+  const [content, setContent] = useState<HierarchyNode[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [pageNumbers, setPageNumbers] = useState<Map<string, number>>(
+    new Map()
+  );
+  const tocRef = useRef<HTMLDivElement>(null);
+  const chapterRefs = useRef<Map<number, HTMLTableElement>>(new Map());
+
+  useEffect(() => {
+    if (!id) return;
+    let cancelled = false;
+
+    setLoading(true);
+    setError(null);
+    Promise.all([
+      libraryService.getPdfDocumentById(id),
+      buildingCodeService.getDocumentContent(id),
+    ])
+      .then(([doc, contentData]) => {
+        if (cancelled) return;
+        setDocumentInfo(doc);
+        setContent(contentData.content);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setError(
+          "Failed to load document data. Please ensure the backend server is running."
+        );
+        console.error("Error fetching document for printing:", err);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  const hierarchyIndex = useMemo(() => indexHierarchy(content), [content]);
+  const referenceCodeIndex = useMemo(
+    () => buildReferenceCodeIndex(content),
+    [content]
+  );
+
+  // Document order of every node, to print selections in reading order
+  const order = useMemo(() => {
+    const result = new Map<number, number>();
+    const walk = (nodes: HierarchyNode[]) =>
+      nodes.forEach((node) => {
+        result.set(node.id, result.size);
+        if (node.children) walk(node.children);
+      });
+    walk(content);
+    return result;
+  }, [content]);
+
+  // Selected nodes from ?nodes=1,2,3; the whole document when absent and
+  // nothing when empty
+  const selectedIds = useMemo(() => {
+    const ids =
+      nodesParam !== undefined
+        ? nodesParam
+            .split(",")
+            .filter(Boolean)
+            .map((value) => parseInt(value))
+            .filter((value) => hierarchyIndex.nodes.has(value))
+        : content.map((node) => node.id);
+    return new Set(ids);
+  }, [nodesParam, content, hierarchyIndex]);
+
+  const chapters = useMemo(() => {
+    // Nodes already printed as part of a selected ancestor are skipped, and
+    // anything above Part level is split into its Parts
+    const roots: HierarchyNode[] = [];
+    const addRoot = (node: HierarchyNode) => {
+      if (node.content_type === "division" && node.children?.length) {
+        node.children.forEach(addRoot);
+      } else {
+        roots.push(node);
+      }
+    };
+    Array.from(selectedIds)
+      .filter(
+        (nodeId) =>
+          !getAncestors(hierarchyIndex, nodeId).some((ancestor) =>
+            selectedIds.has(ancestor.id)
+          )
+      )
+      .sort((a, b) => (order.get(a) ?? 0) - (order.get(b) ?? 0))
+      .forEach((nodeId) => addRoot(hierarchyIndex.nodes.get(nodeId)!));
+
+    const result: PrintChapter[] = [];
+    roots.forEach((node) => {
+      const part =
+        node.content_type === "part"
+          ? node
+          : getAncestors(hierarchyIndex, node.id).find(
+              (ancestor) => ancestor.content_type === "part"
+            );
+      const chapterNode = part || node;
+      const { blocks } = buildSubtreeExport(node, {
+        documentId: id,
+        codes: referenceCodeIndex,
+        origin: typeof window !== "undefined" ? window.location.origin : "",
+      });
+
+      const last = result[result.length - 1];
+      if (last && last.key === chapterNode.id) {
+        last.blocks.push(...blocks);
+      } else {
+        result.push({
+          key: chapterNode.id,
+          label: headingLabel(chapterNode),
+          blocks,
+        });
+      }
+    });
+    return result;
+  }, [selectedIds, hierarchyIndex, referenceCodeIndex, order, id]);
+
+  // Table of contents: the top two heading levels of every chapter
+  const tocEntries = useMemo(
+    () =>
+      chapters.flatMap((chapter) =>
+        chapter.blocks
+          .filter((block) => block.headingLevel > 0 && block.headingLevel <= 2)
+          .map((block) => ({
+            anchor: block.anchor,
+            level: block.headingLevel,
+            text: [block.code, block.runs.map((run) => run.text).join("")]
+              .filter(Boolean)
+              .join(" "),
+          }))
+      ),
+    [chapters]
+  );
+
+  // Browsers cannot number pages for us, so estimate them from the layout:
+  // the sheet is rendered at the printed width, chapters start on a new page
+  // and each page holds the page height minus the repeated header and footer
+  const measurePages = useCallback(() => {
+    const numbers = new Map<string, number>();
+    const tocHeight = tocRef.current?.getBoundingClientRect().height || 0;
+    let nextPage = Math.max(1, Math.ceil(tocHeight / PAGE_CONTENT_HEIGHT)) + 1;
+
+    chapters.forEach((chapter) => {
+      const table = chapterRefs.current.get(chapter.key);
+      if (!table) return;
+      const headerHeight = table.tHead?.getBoundingClientRect().height || 0;
+      const footerHeight = table.tFoot?.getBoundingClientRect().height || 0;
+      const body = table.tBodies[0]?.getBoundingClientRect();
+      if (!body) return;
+      const perPage = Math.max(
+        PAGE_CONTENT_HEIGHT - headerHeight - footerHeight,
+        CSS_PX_PER_INCH
+      );
+
+      chapter.blocks.forEach((block) => {
+        const element = block.anchor && document.getElementById(block.anchor);
+        if (!element) return;
+        const offset = element.getBoundingClientRect().top - body.top;
+        numbers.set(block.anchor, nextPage + Math.floor(offset / perPage));
+      });
+      nextPage += Math.max(1, Math.ceil(body.height / perPage));
+    });
+
+    setPageNumbers(numbers);
+  }, [chapters]);
+
+  useLayoutEffect(() => {
+    if (chapters.length === 0) return;
+    measurePages();
+    // Web fonts can change line wrapping after the first measurement
+    document.fonts?.ready.then(measurePages);
+    window.addEventListener("beforeprint", measurePages);
+    return () => window.removeEventListener("beforeprint", measurePages);
+  }, [chapters, measurePages]);
+
+  const toggleNode = (nodeId: number) => {
+    const next = new Set(selectedIds);
+    if (next.has(nodeId)) {
+      next.delete(nodeId);
+    } else {
+      next.add(nodeId);
+    }
+    router.replace(
+      {
+        pathname: router.pathname,
+        query: { ...router.query, nodes: Array.from(next).join(",") },
+      },
+      undefined,
+      { shallow: true }
+    );
+  };
+
+  const renderPicker = (nodes: HierarchyNode[], level: number = 0) =>
+    nodes
+      .filter((node) => SELECTABLE_TYPES.includes(node.content_type))
+      .map((node) => (
+        <div key={node.id}>
+          <label
+            className="flex items-center gap-2 py-1 text-sm text-gray-800 cursor-pointer"
+            style={{ paddingLeft: `${level * 16}px` }}
+          >
+            <input
+              type="checkbox"
+              checked={selectedIds.has(node.id)}
+              onChange={() => toggleNode(node.id)}
+            />
+            <span className="truncate">{headingLabel(node)}</span>
+          </label>
+          {node.children && renderPicker(node.children, level + 1)}
+        </div>
+      ));
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-10 w-10 animate-spin text-blue-600" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center p-6 text-center">
+        <AlertCircle className="h-12 w-12 text-red-500 mb-4" />
+        <p className="text-gray-600">{error}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="print-reader min-h-screen bg-gray-100 print:bg-white flex gap-6 p-6 print:p-0">
+      {/* Screen-only controls */}
+      <aside className="w-72 flex-shrink-0 bg-white rounded-2xl border border-gray-200 p-4 h-fit sticky top-6 print:hidden">
+        <button
+          onClick={() => window.print()}
+          className="w-full flex items-center justify-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors mb-4"
+        >
+          <Printer size={16} />
+          Print / Save as PDF
+        </button>
+        <h2 className="text-xs font-bold text-gray-600 uppercase tracking-wider mb-2">
+          Include
+        </h2>
+        <div className="max-h-[70vh] overflow-y-auto">
+          {renderPicker(content)}
+        </div>
+      </aside>
+
+      {/* The sheet is laid out at the printed width so page estimates hold */}
+      <div className="print-sheet bg-white shadow print:shadow-none mx-auto w-[7in] print:w-auto">
+        <div ref={tocRef} className="print:break-after-page p-0">
+          <h1 className="text-3xl font-bold text-black">
+            {documentInfo?.title}
+          </h1>
+          <p className="text-gray-600 mt-1">{editionCitation(documentInfo)}</p>
+          <h2 className="text-lg font-semibold text-black mt-8 mb-3">
+            Contents
+          </h2>
+          <ol className="space-y-1">
+            {tocEntries.map((entry) => (
+              <li
+                key={entry.anchor}
+                className={`flex items-baseline gap-2 text-sm ${
+                  entry.level === 1 ? "font-semibold text-black" : "ml-6"
+                }`}
+              >
+                <a href={`#${entry.anchor}`} className="text-gray-900">
+                  {entry.text}
+                </a>
+                <span className="flex-1 border-b border-dotted border-gray-400" />
+                <span className="tabular-nums">
+                  {pageNumbers.get(entry.anchor) ?? ""}
+                </span>
+              </li>
+            ))}
+          </ol>
+        </div>
+
+        {chapters.length === 0 && (
+          <p className="mt-12 text-gray-600 print:hidden">
+            Nothing is selected. Tick the parts to include on the left.
+          </p>
+        )}
+
+        {chapters.map((chapter) => (
+          <table
+            key={chapter.key}
+            ref={(el) => {
+              if (el) {
+                chapterRefs.current.set(chapter.key, el);
+              } else {
+                chapterRefs.current.delete(chapter.key);
+              }
+            }}
+            className="print-chapter w-full border-collapse mt-12 print:mt-0"
+          >
+            <thead>
+              <tr>
+                <td className="pb-3">
+                  <div className="flex justify-between gap-4 border-b border-gray-300 pb-1 text-xs text-gray-600">
+                    <span className="truncate">{documentInfo?.title}</span>
+                    <span className="truncate">{chapter.label}</span>
+                  </div>
+                </td>
+              </tr>
+            </thead>
+            <tfoot>
+              <tr>
+                <td className="pt-3">
+                  <div className="border-t border-gray-300 pt-1 text-xs text-gray-500">
+                    {editionCitation(documentInfo)}
+                  </div>
+                </td>
+              </tr>
+            </tfoot>
+            <tbody>
+              <tr>
+                <td className="align-top">
+                  {chapter.blocks.map((block, i) => renderBlock(block, i))}
+                </td>
+              </tr>
+            </tbody>
+          </table>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PrintDocument;
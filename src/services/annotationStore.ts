@@ -0,0 +1,62 @@
+// src/services/annotationStore.ts
+import { Annotation } from "@/types/annotation";
+import { readStored, writeStored } from "@/services/localStore";
+
+// Persistence for annotations. Local storage today; a backend implementation
+// only needs to provide the same operations.
+export interface AnnotationStore {
+  list(documentId: string): Promise<Annotation[]>;
+  // Annotations of every document, e.g. for export
+  listAll(): Promise<Annotation[]>;
+  save(annotation: Annotation): Promise<Annotation>;
+  remove(documentId: string, id: string): Promise<void>;
+}
+
+const STORAGE_PREFIX = "buildingCodes.annotations.";
+
+class LocalAnnotationStore implements AnnotationStore {
+  private read(documentId: string): Annotation[] {
+    return readStored<Annotation[]>(
+      STORAGE_PREFIX + documentId,
+      [],
+      "annotations"
+    );
+  }
+
+  private write(documentId: string, annotations: Annotation[]) {
+    writeStored(STORAGE_PREFIX + documentId, annotations);
+  }
+
+  async list(documentId: string) {
+    return this.read(documentId);
+  }
+
+  async listAll() {
+    if (typeof window === "undefined") return [];
+    const annotations: Annotation[] = [];
+    for (let i = 0; i < window.localStorage.length; i++) {
+      const key = window.localStorage.key(i);
+      if (key?.startsWith(STORAGE_PREFIX)) {
+        annotations.push(...this.read(key.slice(STORAGE_PREFIX.length)));
+      }
+    }
+    return annotations;
+  }
+
+  async save(annotation: Annotation) {
+    const annotations = this.read(annotation.documentId).filter(
+      (existing) => existing.id !== annotation.id
+    );
+    this.write(annotation.documentId, [...annotations, annotation]);
+    return annotation;
+  }
+
+  async remove(documentId: string, id: string) {
+    this.write(
+      documentId,
+      this.read(documentId).filter((annotation) => annotation.id !== id)
+    );
+  }
+}
+
+export const annotationStore: AnnotationStore = new LocalAnnotationStore();
@@ -0,0 +1,62 @@
+// src/services/bookmarkService.ts
+import { createLocalList } from "@/services/localStore";
+
+export interface Bookmark {
+  key: string;
+  documentId: string;
+  // Full reference code with its Division, e.g. "Div B 9.8.4.1(2)"; stable
+  // across re-ingestion
+  referenceCode: string | null;
+  // Last known content id, only used when the code is missing
+  contentId: number;
+  contentType: string;
+  title: string;
+  snippet: string;
+  documentTitle: string;
+  jurisdictionName: string;
+  year: number | null;
+  createdAt: string;
+}
+
+const store = createLocalList<Bookmark>(
+  "buildingCodes.bookmarks",
+  "bookmarks-changed",
+  "bookmarks"
+);
+
+export const bookmarkKey = (
+  documentId: string,
+  referenceCode: string | null,
+  contentId: number
+) => `${documentId}::${referenceCode || `#${contentId}`}`;
+
+export const bookmarkService = {
+  getAll(): Bookmark[] {
+    return store.read();
+  },
+
+  add(bookmark: Omit<Bookmark, "key" | "createdAt">) {
+    const key = bookmarkKey(
+      bookmark.documentId,
+      bookmark.referenceCode,
+      bookmark.contentId
+    );
+    const bookmarks = store.read().filter((existing) => existing.key !== key);
+    store.write([
+      ...bookmarks,
+      { ...bookmark, key, createdAt: new Date().toISOString() },
+    ]);
+  },
+
+  remove(key: string) {
+    store.write(store.read().filter((bookmark) => bookmark.key !== key));
+  },
+
+  // Replace everything, e.g. after an import
+  replaceAll(bookmarks: Bookmark[]) {
+    store.write(bookmarks);
+  },
+
+  // Notified on changes from this tab and from other tabs
+  subscribe: store.subscribe,
+};
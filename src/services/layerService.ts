@@ -0,0 +1,60 @@
+// src/services/layerService.ts
+import { Annotation } from "@/types/annotation";
+import { Bookmark } from "@/services/bookmarkService";
+import { AnnotationExport } from "@/utils/annotationExport";
+import { createLocalList } from "@/services/localStore";
+
+// Someone else's imported notes and bookmarks, shown alongside (never merged
+// into) the user's own
+export interface AnnotationLayer {
+  id: string;
+  name: string;
+  importedAt: string;
+  exportedAt: string;
+  visible: boolean;
+  annotations: Annotation[];
+  bookmarks: Bookmark[];
+}
+
+const store = createLocalList<AnnotationLayer>(
+  "buildingCodes.layers",
+  "layers-changed",
+  "annotation layers"
+);
+
+export const layerService = {
+  getAll(): AnnotationLayer[] {
+    return store.read();
+  },
+
+  add(name: string, data: AnnotationExport): AnnotationLayer {
+    const layer: AnnotationLayer = {
+      id: `${Date.now().toString(36)}-${Math.random()
+        .toString(36)
+        .slice(2, 8)}`,
+      name,
+      importedAt: new Date().toISOString(),
+      exportedAt: data.exportedAt,
+      visible: true,
+      annotations: data.annotations,
+      bookmarks: data.bookmarks,
+    };
+    store.write([...store.read(), layer]);
+    return layer;
+  },
+
+  setVisible(id: string, visible: boolean) {
+    store.write(
+      store
+        .read()
+        .map((layer) => (layer.id === id ? { ...layer, visible } : layer))
+    );
+  },
+
+  remove(id: string) {
+    store.write(store.read().filter((layer) => layer.id !== id));
+  },
+
+  // Notified on changes from this tab and from other tabs
+  subscribe: store.subscribe,
+};
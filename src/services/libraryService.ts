@@ -1,8 +1,16 @@
 // src/services/libraryService.ts
+import { AncestorCrumb, HierarchyNode } from "@/types/buildingCode";
+import { formatNodeLabel } from "@/utils/hierarchy";
+import { FacetSelection, facetSearchParams } from "@/utils/searchFacets";
+
 const API_BASE_URL =
   process.env.NEXT_PUBLIC_API_URL || "http://localhost:8080/api";
 
 class ApiService {
+  // One in-flight/settled content item (without children) per document and
+  // content id, shared by all breadcrumb lookups
+  private contentItemCache = new Map<string, Promise<HierarchyNode>>();
+
   private async fetchWithErrorHandling(url: string, options: RequestInit = {}) {
     try {
       const response = await fetch(url, {
@@ -73,11 +81,95 @@ class ApiService {
     );
   }
 
+  // Original PDF served by the backend, for the source page view
+  getPdfDocumentFileUrl(id: string) {
+    return `${API_BASE_URL}/pdf-documents/${id}/file`;
+  }
+
+  // One content item; with its subtree, or on its own for walking up
+  private getContentItem(
+    documentId: string,
+    contentId: number,
+    withChildren: boolean
+  ): Promise<HierarchyNode> {
+    const depth = withChildren ? "" : "?depth=0";
+    return this.fetchWithErrorHandling(
+      `${API_BASE_URL}/pdf-documents/${documentId}/content/${contentId}${depth}`
+    );
+  }
+
+  // Branch from the top of the document down to a content item: the item
+  // with its subtree, under each of its ancestors without their other
+  // children. Walks up parent_id one level per request, so a search hit or
+  // link can be shown without loading the rest of the document.
+  async getContentBranch(
+    documentId: string,
+    contentId: number
+  ): Promise<HierarchyNode> {
+    let branch = await this.getContentItem(documentId, contentId, true);
+    while (branch.parent_id) {
+      const parent = await this.getContentItem(
+        documentId,
+        branch.parent_id,
+        false
+      );
+      branch = { ...parent, children: [branch] };
+    }
+    return branch;
+  }
+
+  private getCachedContentItem(documentId: string, contentId: number) {
+    const key = `${documentId}:${contentId}`;
+    let cached = this.contentItemCache.get(key);
+    if (!cached) {
+      cached = this.getContentItem(documentId, contentId, false);
+      // Drop failed lookups so a later page of results can retry
+      cached.catch(() => this.contentItemCache.delete(key));
+      this.contentItemCache.set(key, cached);
+    }
+    return cached;
+  }
+
+  // Resolve the ancestor chain of several content items of one document by
+  // walking up parent_id. Items are cached by id, so hits sharing a Section
+  // or Part, and later pages of results, request each ancestor only once.
+  async getAncestorChains(
+    documentId: string,
+    contentIds: number[]
+  ): Promise<Record<number, AncestorCrumb[]>> {
+    const chainOf = async (id: number) => {
+      const crumbs: AncestorCrumb[] = [];
+      const seen = new Set<number>([id]);
+      let node = await this.getCachedContentItem(documentId, id);
+      while (node.parent_id && !seen.has(node.parent_id)) {
+        seen.add(node.parent_id);
+        node = await this.getCachedContentItem(documentId, node.parent_id);
+        crumbs.unshift({
+          id: node.id,
+          content_type: node.content_type,
+          reference_code: node.reference_code,
+          title: node.title,
+          label: formatNodeLabel(node),
+        });
+      }
+      return crumbs;
+    };
+
+    const chains: Record<number, AncestorCrumb[]> = {};
+    const resolved = await Promise.all(contentIds.map(chainOf));
+    contentIds.forEach((id, i) => {
+      chains[id] = resolved[i];
+    });
+    return chains;
+  }
+
   async searchContent(
     query: string,
     documentId?: string,
     page: number = 1,
-    limit: number = 10
+    limit: number = 10,
+    // Filters the hits on the server, which then also counts the facets
+    facets?: FacetSelection
   ) {
     const params = new URLSearchParams({
       q: query,
@@ -88,6 +180,11 @@ class ApiService {
     if (documentId) {
       params.append("documentId", documentId);
     }
+    if (facets) {
+      facetSearchParams(facets).forEach(([name, value]) =>
+        params.append(name, value)
+      );
+    }
 
     const response = await this.fetchWithErrorHandling(
       `${API_BASE_URL}/search?${params}`
@@ -0,0 +1,58 @@
+// src/services/localStore.ts
+
+export const STORAGE_FULL_MESSAGE =
+  "Browser storage is full. Remove some notes, bookmarks or layers and try again.";
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException &&
+  (error.name === "QuotaExceededError" ||
+    error.name === "NS_ERROR_DOM_QUOTA_REACHED");
+
+export const readStored = <T>(key: string, fallback: T, label: string): T => {
+  if (typeof window === "undefined") return fallback;
+  try {
+    const stored = window.localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : fallback;
+  } catch (error) {
+    console.error(`Failed to read ${label}:`, error);
+    return fallback;
+  }
+};
+
+// Throws with a message suitable for the user when storage is full
+export const writeStored = (key: string, value: unknown) => {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    if (isQuotaError(error)) throw new Error(STORAGE_FULL_MESSAGE);
+    throw error;
+  }
+};
+
+// A JSON list under one local storage key, such as the bookmarks. Writes are
+// announced in this tab with changeEvent and reach other tabs through the
+// storage event.
+export const createLocalList = <T>(
+  key: string,
+  changeEvent: string,
+  label: string
+) => ({
+  read: (): T[] => readStored<T[]>(key, [], label),
+
+  write(items: T[]) {
+    writeStored(key, items);
+    window.dispatchEvent(new Event(changeEvent));
+  },
+
+  subscribe(listener: () => void) {
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === key) listener();
+    };
+    window.addEventListener(changeEvent, listener);
+    window.addEventListener("storage", handleStorage);
+    return () => {
+      window.removeEventListener(changeEvent, listener);
+      window.removeEventListener("storage", handleStorage);
+    };
+  },
+});
@@ -0,0 +1,124 @@
+// src/services/offlineStore.ts
+import { DocumentContentResponse, HierarchyNode } from "@/types/buildingCode";
+
+// A document saved for reading without a connection
+export interface OfflineDocument<TDocument = unknown> {
+  id: string;
+  // getPdfDocumentById payload
+  document: TDocument;
+  // getDocumentContent payload
+  content: DocumentContentResponse;
+  savedAt: string;
+  // Newest updated_at in the content, to tell how current the copy is
+  contentUpdatedAt: string | null;
+}
+
+const DB_NAME = "building-codes-offline";
+const DB_VERSION = 1;
+const STORE_NAME = "documents";
+const CHANGE_EVENT = "offline-documents-changed";
+
+// Newest updated_at anywhere in a content tree
+export const latestUpdatedAt = (nodes: HierarchyNode[]): string | null => {
+  let latest: string | null = null;
+  const walk = (items: HierarchyNode[]) =>
+    items.forEach((node) => {
+      if (node.updated_at && (!latest || node.updated_at > latest)) {
+        latest = node.updated_at;
+      }
+      if (node.children) walk(node.children);
+    });
+  walk(nodes);
+  return latest;
+};
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!database) {
+    database = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry, e.g. after the user re-enables storage
+    database.catch(() => {
+      database = null;
+    });
+  }
+  return database;
+};
+
+// Run one request in its own transaction and resolve with its result
+const run = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = operation(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const notify = () => window.dispatchEvent(new Event(CHANGE_EVENT));
+
+export const offlineStore = {
+  isSupported() {
+    return typeof window !== "undefined" && "indexedDB" in window;
+  },
+
+  async get<TDocument>(id: string): Promise<OfflineDocument<TDocument> | null> {
+    if (!this.isSupported()) return null;
+    const entry = await run<OfflineDocument<TDocument> | undefined>(
+      "readonly",
+      (store) => store.get(id)
+    );
+    return entry ?? null;
+  },
+
+  async getAll<TDocument>(): Promise<OfflineDocument<TDocument>[]> {
+    if (!this.isSupported()) return [];
+    return run<OfflineDocument<TDocument>[]>("readonly", (store) =>
+      store.getAll()
+    );
+  },
+
+  async getIds(): Promise<string[]> {
+    if (!this.isSupported()) return [];
+    return run<string[]>("readonly", (store) => store.getAllKeys());
+  },
+
+  async save<TDocument>(
+    id: string,
+    document: TDocument,
+    content: DocumentContentResponse
+  ): Promise<OfflineDocument<TDocument>> {
+    const entry: OfflineDocument<TDocument> = {
+      id,
+      document,
+      content,
+      savedAt: new Date().toISOString(),
+      contentUpdatedAt: latestUpdatedAt(content.content),
+    };
+    await run("readwrite", (store) => store.put(entry));
+    notify();
+    return entry;
+  },
+
+  async remove(id: string) {
+    await run("readwrite", (store) => store.delete(id));
+    notify();
+  },
+
+  subscribe(listener: () => void) {
+    window.addEventListener(CHANGE_EVENT, listener);
+    return () => window.removeEventListener(CHANGE_EVENT, listener);
+  },
+};
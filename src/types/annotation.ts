@@ -0,0 +1,23 @@
+export type HighlightColor = "yellow" | "green" | "blue" | "pink";
+
+// Position of a highlight inside one item's text. Offsets are tried first;
+// the quote and its surrounding context re-anchor it when the text changes.
+export interface TextAnchor {
+  contentId: number;
+  referenceCode: string | null;
+  start: number;
+  end: number;
+  quote: string;
+  prefix: string;
+  suffix: string;
+}
+
+export interface Annotation {
+  id: string;
+  documentId: string;
+  anchor: TextAnchor;
+  color: HighlightColor;
+  note: string;
+  createdAt: string;
+  updatedAt: string;
+}
@@ -68,4 +68,34 @@ export interface HierarchyNode extends BuildingCodeItem {
 export interface DocumentContentResponse {
   documentId: string;
   content: HierarchyNode[];
-}
\ No newline at end of file
+}
+// Content hit from the server search API, converted to snake_case
+export interface ContentSearchResult {
+  id: number;
+  parent_id: number | null;
+  content_type: ContentType;
+  page_number: number;
+  reference_code: string | null;
+  title: string | null;
+  content_text: string | null;
+  sequence_order: number;
+  pdf_document_id: string;
+}
+
+export interface ContentSearchResponse {
+  results: ContentSearchResult[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+export interface AncestorCrumb {
+  id: number;
+  content_type: ContentType;
+  reference_code: string | null;
+  title: string | null;
+  label: string;
+}
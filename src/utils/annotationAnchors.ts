@@ -0,0 +1,150 @@
+// src/utils/annotationAnchors.ts
+import { HierarchyNode } from "@/types/buildingCode";
+import { TextAnchor } from "@/types/annotation";
+import { HierarchyIndex } from "@/utils/hierarchy";
+import {
+  ReferenceCodeIndex,
+  resolveReferenceCode,
+} from "@/utils/referenceCodes";
+
+const CONTEXT_LENGTH = 32;
+
+// The text an item renders through highlightReferences, which is what
+// highlights are anchored to (clauses show their title, others content_text)
+export const getAnnotatableText = (node: HierarchyNode) =>
+  (node.content_type === "clause" ? node.title : node.content_text) || "";
+
+export const createAnchor = (
+  text: string,
+  start: number,
+  end: number,
+  contentId: number,
+  referenceCode: string | null
+): TextAnchor => ({
+  contentId,
+  referenceCode,
+  start,
+  end,
+  quote: text.substring(start, end),
+  prefix: text.substring(Math.max(0, start - CONTEXT_LENGTH), start),
+  suffix: text.substring(end, end + CONTEXT_LENGTH),
+});
+
+// Characters shared at the end of a and the start of b (or vice versa)
+const commonSuffixLength = (a: string, b: string) => {
+  let length = 0;
+  while (
+    length < a.length &&
+    length < b.length &&
+    a[a.length - 1 - length] === b[b.length - 1 - length]
+  ) {
+    length++;
+  }
+  return length;
+};
+
+const commonPrefixLength = (a: string, b: string) => {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) {
+    length++;
+  }
+  return length;
+};
+
+// Find the anchor in possibly changed text. Returns null when the quoted
+// text no longer occurs, i.e. the highlight is orphaned.
+export const resolveAnchor = (
+  anchor: TextAnchor,
+  text: string
+): { start: number; end: number } | null => {
+  if (!anchor.quote) return null;
+
+  if (text.substring(anchor.start, anchor.end) === anchor.quote) {
+    return { start: anchor.start, end: anchor.end };
+  }
+
+  // Score every occurrence of the quote by how well its context matches,
+  // preferring the one closest to the original position on ties
+  let best: { start: number; score: number; distance: number } | null = null;
+  let position = text.indexOf(anchor.quote);
+  while (position !== -1) {
+    const score =
+      commonSuffixLength(
+        text.substring(Math.max(0, position - CONTEXT_LENGTH), position),
+        anchor.prefix
+      ) +
+      commonPrefixLength(
+        text.substring(position + anchor.quote.length),
+        anchor.suffix
+      );
+    const distance = Math.abs(position - anchor.start);
+    if (
+      !best ||
+      score > best.score ||
+      (score === best.score && distance < best.distance)
+    ) {
+      best = { start: position, score, distance };
+    }
+    position = text.indexOf(anchor.quote, position + 1);
+  }
+
+  return best
+    ? { start: best.start, end: best.start + anchor.quote.length }
+    : null;
+};
+
+// Character offset of a DOM position within an annotatable element, counting
+// only rendered text (popovers marked data-annotation-ignore are skipped)
+export const getTextOffset = (
+  root: HTMLElement,
+  node: Node,
+  offset: number
+): number => {
+  const range = document.createRange();
+  range.setStart(root, 0);
+  range.setEnd(node, offset);
+  const fragment = range.cloneContents();
+  fragment
+    .querySelectorAll("[data-annotation-ignore]")
+    .forEach((element) => element.remove());
+  return fragment.textContent?.length || 0;
+};
+
+export interface AnnotationResolution {
+  // Provision the highlight now belongs to, null when orphaned
+  contentId: number | null;
+  range: { start: number; end: number } | null;
+  // Anchored, but not where it was made: the text or numbering has changed
+  changed: boolean;
+}
+
+// Re-anchor an annotation against the current content: by content id first,
+// then by reference code in case the content was re-ingested with new ids
+export const resolveAnnotation = (
+  anchor: TextAnchor,
+  hierarchy: HierarchyIndex,
+  codes: ReferenceCodeIndex
+): AnnotationResolution => {
+  let node = hierarchy.nodes.get(anchor.contentId);
+  if (
+    anchor.referenceCode &&
+    (!node || codes.fullCodes.get(node.id) !== anchor.referenceCode)
+  ) {
+    const match = resolveReferenceCode(codes, anchor.referenceCode);
+    if (match?.exact) node = hierarchy.nodes.get(match.id);
+  }
+
+  const range = node ? resolveAnchor(anchor, getAnnotatableText(node)) : null;
+  if (!node || !range) {
+    return { contentId: null, range: null, changed: true };
+  }
+
+  return {
+    contentId: node.id,
+    range,
+    changed:
+      node.id !== anchor.contentId ||
+      range.start !== anchor.start ||
+      range.end !== anchor.end,
+  };
+};
@@ -0,0 +1,195 @@
+// src/utils/annotationExport.ts
+import { Annotation, HighlightColor, TextAnchor } from "@/types/annotation";
+import { Bookmark } from "@/services/bookmarkService";
+import { downloadBlob } from "@/utils/download";
+
+export const EXPORT_FORMAT = "building-codes-annotations";
+// Bump when the file layout changes; older versions are migrated on import
+export const EXPORT_VERSION = 1;
+
+export interface AnnotationExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  documentIds: string[];
+  annotations: Annotation[];
+  bookmarks: Bookmark[];
+}
+
+// Notes, highlights and bookmarks of the given documents (all when omitted)
+export const createExport = (
+  annotations: Annotation[],
+  bookmarks: Bookmark[],
+  documentIds?: string[]
+): AnnotationExport => {
+  const included = (documentId: string) =>
+    !documentIds || documentIds.includes(documentId);
+  const selectedAnnotations = annotations.filter((annotation) =>
+    included(annotation.documentId)
+  );
+  const selectedBookmarks = bookmarks.filter((bookmark) =>
+    included(bookmark.documentId)
+  );
+
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    documentIds:
+      documentIds ||
+      Array.from(
+        new Set([
+          ...selectedAnnotations.map((annotation) => annotation.documentId),
+          ...selectedBookmarks.map((bookmark) => bookmark.documentId),
+        ])
+      ),
+    annotations: selectedAnnotations,
+    bookmarks: selectedBookmarks,
+  };
+};
+
+export interface ParsedExport {
+  data: AnnotationExport;
+  // Items in the file that were malformed and left out
+  skipped: { annotations: number; bookmarks: number };
+}
+
+const HIGHLIGHT_COLORS: HighlightColor[] = ["yellow", "green", "blue", "pink"];
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+const isCount = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0;
+
+const isOptional = <T>(value: unknown, check: (value: unknown) => value is T) =>
+  value === undefined || value === null || check(value);
+
+const isAnchor = (value: unknown): value is TextAnchor => {
+  const anchor = value as TextAnchor;
+  return (
+    !!anchor &&
+    typeof anchor === "object" &&
+    isCount(anchor.contentId) &&
+    isOptional(anchor.referenceCode, isString) &&
+    isCount(anchor.start) &&
+    isCount(anchor.end) &&
+    anchor.start <= anchor.end &&
+    isString(anchor.quote) &&
+    isOptional(anchor.prefix, isString) &&
+    isOptional(anchor.suffix, isString)
+  );
+};
+
+const isAnnotation = (value: unknown): value is Annotation => {
+  const annotation = value as Annotation;
+  return (
+    !!annotation &&
+    typeof annotation === "object" &&
+    isString(annotation.id) &&
+    isString(annotation.documentId) &&
+    isAnchor(annotation.anchor) &&
+    (annotation.color === undefined ||
+      HIGHLIGHT_COLORS.includes(annotation.color)) &&
+    isOptional(annotation.note, isString) &&
+    isOptional(annotation.createdAt, isString) &&
+    isOptional(annotation.updatedAt, isString)
+  );
+};
+
+const isBookmark = (value: unknown): value is Bookmark => {
+  const bookmark = value as Bookmark;
+  return (
+    !!bookmark &&
+    typeof bookmark === "object" &&
+    isString(bookmark.key) &&
+    isString(bookmark.documentId) &&
+    isOptional(bookmark.referenceCode, isString) &&
+    isCount(bookmark.contentId) &&
+    isOptional(bookmark.contentType, isString) &&
+    isOptional(bookmark.title, isString) &&
+    isOptional(bookmark.snippet, isString) &&
+    isOptional(bookmark.documentTitle, isString) &&
+    isOptional(bookmark.jurisdictionName, isString) &&
+    isOptional(
+      bookmark.year,
+      (year): year is number => typeof year === "number"
+    )
+  );
+};
+
+// Validate an imported file item by item, keeping the valid ones and counting
+// the rest. Throws with a message suitable for the user when the file as a
+// whole is unusable.
+export const parseExport = (text: string): ParsedExport => {
+  let data: Partial<AnnotationExport>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+
+  if (!data || data.format !== EXPORT_FORMAT) {
+    throw new Error("The file is not an annotations export.");
+  }
+  if (typeof data.version !== "number" || data.version > EXPORT_VERSION) {
+    throw new Error(
+      `Export version ${data.version} is not supported. Please update the app.`
+    );
+  }
+  if (
+    (data.annotations !== undefined && !Array.isArray(data.annotations)) ||
+    (data.bookmarks !== undefined && !Array.isArray(data.bookmarks))
+  ) {
+    throw new Error("The file's notes or bookmarks are not lists.");
+  }
+
+  const allAnnotations: unknown[] = data.annotations || [];
+  const allBookmarks: unknown[] = data.bookmarks || [];
+  const annotations = allAnnotations.filter(isAnnotation);
+  const bookmarks = allBookmarks.filter(isBookmark);
+
+  return {
+    data: {
+      format: EXPORT_FORMAT,
+      version: data.version,
+      exportedAt: isString(data.exportedAt) ? data.exportedAt : "",
+      documentIds: Array.isArray(data.documentIds)
+        ? data.documentIds.filter(isString)
+        : [],
+      annotations: annotations.map((annotation) => ({
+        ...annotation,
+        anchor: {
+          ...annotation.anchor,
+          referenceCode: annotation.anchor.referenceCode ?? null,
+          prefix: annotation.anchor.prefix || "",
+          suffix: annotation.anchor.suffix || "",
+        },
+        color: annotation.color || "yellow",
+        note: annotation.note || "",
+        createdAt: annotation.createdAt || "",
+        updatedAt: annotation.updatedAt || "",
+      })),
+      bookmarks: bookmarks.map((bookmark) => ({
+        ...bookmark,
+        referenceCode: bookmark.referenceCode ?? null,
+        contentType: bookmark.contentType || "",
+        title: bookmark.title || "",
+        snippet: bookmark.snippet || "",
+        documentTitle: bookmark.documentTitle || "",
+        jurisdictionName: bookmark.jurisdictionName || "",
+        year: bookmark.year ?? null,
+        createdAt: bookmark.createdAt || "",
+      })),
+    },
+    skipped: {
+      annotations: allAnnotations.length - annotations.length,
+      bookmarks: allBookmarks.length - bookmarks.length,
+    },
+  };
+};
+
+export const downloadExport = (data: AnnotationExport, fileName: string) =>
+  downloadBlob(
+    new Blob([JSON.stringify(data, null, 2)], { type: "application/json" }),
+    fileName.endsWith(".json") ? fileName : `${fileName}.json`
+  );
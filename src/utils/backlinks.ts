@@ -0,0 +1,72 @@
+// src/utils/backlinks.ts
+import { HierarchyNode } from "@/types/buildingCode";
+
+export interface Backlink {
+  sourceId: number;
+  sourceCode: string;
+  referenceText: string;
+  snippet: string;
+}
+
+const SNIPPET_RADIUS = 60;
+
+// Short excerpt of the referring text centred on the reference itself
+const buildSnippet = (text: string, referenceText: string) => {
+  const position = text.toLowerCase().indexOf(referenceText.toLowerCase());
+  if (position === -1 || text.length <= SNIPPET_RADIUS * 2) {
+    return text.length > SNIPPET_RADIUS * 2
+      ? `${text.substring(0, SNIPPET_RADIUS * 2)}…`
+      : text;
+  }
+
+  const start = Math.max(0, position - SNIPPET_RADIUS);
+  const end = Math.min(
+    text.length,
+    position + referenceText.length + SNIPPET_RADIUS
+  );
+  return `${start > 0 ? "…" : ""}${text.substring(start, end)}${
+    end < text.length ? "…" : ""
+  }`;
+};
+
+// Reverse index of Reference.target_content_id -> referring items, labelled
+// with their full codes (see buildReferenceCodeIndex), e.g. "9.8.4.1(2)(a)"
+export const buildBacklinkIndex = (
+  roots: HierarchyNode[],
+  fullCodes: Map<number, string>
+): Map<number, Backlink[]> => {
+  const index = new Map<number, Backlink[]>();
+
+  const walk = (nodes: HierarchyNode[]) => {
+    nodes.forEach((node) => {
+      const sourceCode = fullCodes.get(node.id) || node.reference_code || "";
+
+      (node.references || []).forEach((reference) => {
+        if (!reference.target_content_id) return;
+        // A provision referring to itself is not a useful backlink
+        if (reference.target_content_id === node.id) return;
+
+        const backlinks = index.get(reference.target_content_id) || [];
+        if (backlinks.some((link) => link.sourceId === node.id)) return;
+
+        backlinks.push({
+          sourceId: node.id,
+          sourceCode,
+          referenceText: reference.reference_text,
+          snippet: buildSnippet(
+            node.content_text || node.title || "",
+            reference.reference_text
+          ),
+        });
+        index.set(reference.target_content_id, backlinks);
+      });
+
+      if (node.children) {
+        walk(node.children);
+      }
+    });
+  };
+
+  walk(roots);
+  return index;
+};
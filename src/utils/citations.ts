@@ -0,0 +1,175 @@
+// src/utils/citations.ts
+import { HierarchyNode } from "@/types/buildingCode";
+import {
+  HierarchyIndex,
+  formatNodeLabel,
+  getAncestors,
+} from "@/utils/hierarchy";
+import {
+  ReferenceCodeIndex,
+  buildProvisionPath,
+  scopedReferenceCode,
+} from "@/utils/referenceCodes";
+
+export type CitationStyle = "formal" | "short" | "markdown" | "bibliography";
+
+export const CITATION_STYLES: { style: CitationStyle; label: string }[] = [
+  { style: "formal", label: "Formal" },
+  { style: "short", label: "Short form" },
+  { style: "markdown", label: "Markdown link" },
+  { style: "bibliography", label: "Bibliography" },
+];
+
+export interface CitationSource {
+  documentId?: string;
+  document?: {
+    title: string;
+    year: number;
+    version?: string;
+    jurisdiction_name: string;
+  };
+  // Origin for the deep link, e.g. "https://codes.example.com"
+  origin: string;
+}
+
+// Numbered provisions are written with a trailing period and sentence or
+// clause numbers follow it: "9.8.4.1.", "9.8.4.1.(2)(a)". Parts are plain.
+export const formatProvisionNumber = (
+  fullCode: string,
+  contentType: string
+) => {
+  const code = fullCode.trim();
+  if (contentType === "part" || contentType === "division") return code;
+
+  const bracket = code.indexOf("(");
+  const number = (bracket === -1 ? code : code.substring(0, bracket)).replace(
+    /\.+$/,
+    ""
+  );
+  const suffix = bracket === -1 ? "" : code.substring(bracket);
+  return number ? `${number}.${suffix}` : suffix;
+};
+
+const typeName = (contentType: string) =>
+  contentType.charAt(0).toUpperCase() + contentType.slice(1);
+
+// Clauses and subclauses are cited from their Sentence by their own numbers
+const CLAUSE_TYPES = ["clause", "subclause"];
+
+// "Sentence 9.8.4.1.(2), Clause (a)" and the Division it sits in, if any
+const locate = (
+  node: HierarchyNode,
+  hierarchy: HierarchyIndex,
+  codes: ReferenceCodeIndex
+) => {
+  const fullCode = codes.fullCodes.get(node.id) || node.reference_code || "";
+  const ancestors = getAncestors(hierarchy, node.id);
+  const division = ancestors.find(
+    (ancestor) => ancestor.content_type === "division"
+  );
+
+  const numbered = (item: HierarchyNode) => {
+    const code = codes.fullCodes.get(item.id) || item.reference_code || "";
+    return code
+      ? `${typeName(item.content_type)} ${formatProvisionNumber(
+          code,
+          item.content_type
+        )}`
+      : formatNodeLabel(item);
+  };
+
+  // Walk up from a clause to the Sentence (or Article) it belongs to
+  const chain = [...ancestors, node];
+  let first = chain.length - 1;
+  while (
+    first > 0 &&
+    CLAUSE_TYPES.includes(chain[first].content_type) &&
+    chain[first].reference_code?.trim()
+  ) {
+    first--;
+  }
+
+  return {
+    fullCode,
+    provision: [
+      numbered(chain[first]),
+      ...chain
+        .slice(first + 1)
+        .map(
+          (item) =>
+            `${typeName(item.content_type)} ${item.reference_code!.trim()}`
+        ),
+    ].join(", "),
+    division: division ? formatNodeLabel(division) : null,
+  };
+};
+
+const editionName = (document: CitationSource["document"]) =>
+  document
+    ? `${document.title}${
+        document.title.includes(String(document.year))
+          ? ""
+          : ` ${document.year}`
+      }`
+    : "";
+
+// Citation of a provision in the given style, numbered from its ancestor chain
+export const formatCitation = (
+  node: HierarchyNode,
+  hierarchy: HierarchyIndex,
+  codes: ReferenceCodeIndex,
+  style: CitationStyle,
+  source: CitationSource
+): string => {
+  const { fullCode, provision, division } = locate(node, hierarchy, codes);
+  const { document, documentId } = source;
+  // Linked by Division-scoped code, as Divisions can share numbering
+  const linkCode = scopedReferenceCode(codes, node.id) || fullCode;
+  const url = documentId
+    ? `${source.origin}${
+        linkCode
+          ? buildProvisionPath(documentId, linkCode)
+          : `/document/${documentId}?highlight=${node.id}`
+      }`
+    : "";
+
+  switch (style) {
+    case "formal":
+      return [
+        provision,
+        division && `of ${division}`,
+        document && `of the ${editionName(document)}`,
+      ]
+        .filter(Boolean)
+        .join(" ");
+
+    case "short":
+      return [
+        division && `Div. ${division.replace(/^division\s*/i, "")}`,
+        fullCode
+          ? formatProvisionNumber(fullCode, node.content_type)
+          : formatNodeLabel(node),
+      ]
+        .filter(Boolean)
+        .join(" ");
+
+    case "markdown": {
+      const text = [provision, document && editionName(document)]
+        .filter(Boolean)
+        .join(", ");
+      return url ? `[${text}](${url})` : text;
+    }
+
+    case "bibliography":
+      return [
+        document &&
+          `${document.jurisdiction_name}. ${document.title}, ${
+            document.year
+          } edition${document.version ? ` (${document.version})` : ""}.`,
+        `${[division, provision].filter(Boolean).join(", ")}.`,
+        url && `Available at: ${url}`,
+      ]
+        .filter(Boolean)
+        .join(" ");
+  }
+};
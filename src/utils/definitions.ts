@@ -0,0 +1,131 @@
+// src/utils/definitions.ts
+import { HierarchyNode } from "@/types/buildingCode";
+
+export interface DefinitionEntry {
+  id: number;
+  term: string;
+  definition: string;
+  reference_code: string | null;
+}
+
+export interface DefinitionIndex {
+  entries: DefinitionEntry[];
+  byTerm: Map<string, DefinitionEntry>;
+  matcher: RegExp | null;
+}
+
+export interface DefinitionSegment {
+  text: string;
+  entry?: DefinitionEntry;
+}
+
+export const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const normaliseTerm = (term: string) =>
+  term.trim().replace(/\s+/g, " ").toLowerCase();
+
+// Pattern for a term and its regular plural forms ("storey" -> "storeys",
+// "occupancy" -> "occupancies", "fire compartment" -> "fire compartments")
+const termPattern = (term: string) => {
+  const words = term.split(" ").map(escapeRegExp);
+  const last = words.pop()!;
+  const pluralLast = /[^aeiou]y$/i.test(last)
+    ? `(?:${last}|${last.slice(0, -1)}ies)`
+    : /(?:s|x|z|ch|sh)$/i.test(last)
+    ? `${last}(?:es)?`
+    : `${last}s?`;
+  return [...words, pluralLast].join("\\s+");
+};
+
+// Map a matched occurrence (possibly plural, any case) back to its term
+const resolveEntry = (match: string, index: DefinitionIndex) => {
+  const normalised = normaliseTerm(match);
+  const candidates = [
+    normalised,
+    normalised.replace(/ies$/, "y"),
+    normalised.replace(/es$/, ""),
+    normalised.replace(/s$/, ""),
+  ];
+  for (const candidate of candidates) {
+    const entry = index.byTerm.get(candidate);
+    if (entry) return entry;
+  }
+  return undefined;
+};
+
+// Collect every defined term of a document into an alphabetical glossary and
+// a single matcher so content text can be scanned in one pass
+export const buildDefinitionIndex = (
+  roots: HierarchyNode[]
+): DefinitionIndex => {
+  const byTerm = new Map<string, DefinitionEntry>();
+
+  const walk = (nodes: HierarchyNode[]) => {
+    nodes.forEach((node) => {
+      const term = node.definition_term?.trim();
+      if (node.is_definition && term && !byTerm.has(normaliseTerm(term))) {
+        byTerm.set(normaliseTerm(term), {
+          id: node.id,
+          term,
+          definition: node.content_text?.trim() || node.title?.trim() || "",
+          reference_code: node.reference_code,
+        });
+      }
+      if (node.children) {
+        walk(node.children);
+      }
+    });
+  };
+
+  walk(roots);
+
+  const entries = Array.from(byTerm.values()).sort((a, b) =>
+    a.term.localeCompare(b.term, undefined, { sensitivity: "base" })
+  );
+
+  // Longest terms first so "fire separation" wins over "fire"
+  const patterns = Array.from(byTerm.keys())
+    .sort((a, b) => b.length - a.length)
+    .map(termPattern);
+
+  const matcher =
+    patterns.length > 0
+      ? new RegExp(`\\b(?:${patterns.join("|")})\\b`, "gi")
+      : null;
+
+  return { entries, byTerm, matcher };
+};
+
+// Split text into plain runs and runs that are occurrences of defined terms
+export const splitByDefinitions = (
+  text: string,
+  index: DefinitionIndex,
+  excludeId?: number
+): DefinitionSegment[] => {
+  if (!text || !index.matcher) {
+    return [{ text }];
+  }
+
+  const segments: DefinitionSegment[] = [];
+  const matcher = new RegExp(index.matcher.source, index.matcher.flags);
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = matcher.exec(text)) !== null) {
+    const entry = resolveEntry(match[0], index);
+    if (!entry || entry.id === excludeId) continue;
+
+    if (match.index > lastIndex) {
+      segments.push({ text: text.substring(lastIndex, match.index) });
+    }
+    segments.push({ text: match[0], entry });
+    lastIndex = match.index + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ text: text.substring(lastIndex) });
+  }
+
+  return segments;
+};
@@ -0,0 +1,316 @@
+// src/utils/editionDiff.ts
+import { ContentType, HierarchyNode } from "@/types/buildingCode";
+import { formatNodeLabel } from "@/utils/hierarchy";
+import {
+  buildReferenceCodeIndex,
+  normaliseReferenceCode,
+} from "@/utils/referenceCodes";
+
+export type ChangeStatus = "added" | "removed" | "moved" | "modified";
+
+export interface DiffToken {
+  text: string;
+  type: "equal" | "insert" | "delete";
+}
+
+export interface EditionNode {
+  id: number;
+  code: string;
+  content_type: ContentType;
+  title: string | null;
+  text: string;
+  part: string;
+}
+
+export interface EditionChange {
+  status: ChangeStatus;
+  base: EditionNode | null;
+  target: EditionNode | null;
+  // Word-level diff of the provision text (modified and moved only)
+  tokens: DiffToken[];
+}
+
+export interface PartSummary {
+  part: string;
+  added: number;
+  removed: number;
+  moved: number;
+  modified: number;
+}
+
+export interface EditionDiff {
+  changes: EditionChange[];
+  summary: PartSummary[];
+  unchanged: number;
+}
+
+// Renumbered provisions must share at least this much of their wording
+const FUZZY_MATCH_THRESHOLD = 0.6;
+// Word diffs above this size fall back to a delete + insert pair
+const MAX_DIFF_TOKENS = 1500;
+
+const NO_PART = "Front matter";
+
+// Provisions compared between progress reports
+const PROGRESS_INTERVAL = 200;
+
+const nodeText = (node: HierarchyNode) =>
+  [node.title, node.content_text !== node.title ? node.content_text : null]
+    .filter(Boolean)
+    .join(" ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+// Flatten a tree into comparable nodes keyed by their full reference code
+const flattenEdition = (roots: HierarchyNode[]): EditionNode[] => {
+  const { fullCodes } = buildReferenceCodeIndex(roots);
+  const nodes: EditionNode[] = [];
+
+  const walk = (items: HierarchyNode[], part: string) => {
+    items.forEach((node) => {
+      const nodePart =
+        node.content_type === "part" ? formatNodeLabel(node) : part;
+      nodes.push({
+        id: node.id,
+        code: fullCodes.get(node.id) || "",
+        content_type: node.content_type,
+        title: node.title,
+        text: nodeText(node),
+        part: nodePart,
+      });
+      if (node.children) {
+        walk(node.children, nodePart);
+      }
+    });
+  };
+
+  walk(roots, NO_PART);
+  return nodes;
+};
+
+const tokenize = (text: string) => text.split(/(\s+)/).filter(Boolean);
+
+const words = (text: string) =>
+  new Set(text.toLowerCase().match(/[a-z0-9]+/g) || []);
+
+// Jaccard similarity of the word sets of two texts
+const similarity = (wordsA: Set<string>, wordsB: Set<string>) => {
+  if (wordsA.size === 0 && wordsB.size === 0) return 1;
+
+  let shared = 0;
+  wordsA.forEach((word) => {
+    if (wordsB.has(word)) shared++;
+  });
+  return shared / (wordsA.size + wordsB.size - shared);
+};
+
+// Word-level diff using the longest common subsequence of tokens
+export const diffWords = (before: string, after: string): DiffToken[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+
+  if (a.length * b.length > MAX_DIFF_TOKENS * MAX_DIFF_TOKENS) {
+    return [
+      { text: before, type: "delete" },
+      { text: after, type: "insert" },
+    ];
+  }
+
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const tokens: DiffToken[] = [];
+  const push = (text: string, type: DiffToken["type"]) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      tokens.push({ text, type });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(a[i], "equal");
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push(a[i++], "delete");
+    } else {
+      push(b[j++], "insert");
+    }
+  }
+  while (i < a.length) push(a[i++], "delete");
+  while (j < b.length) push(b[j++], "insert");
+
+  return tokens;
+};
+
+// Align two editions by reference code, then pair what is left by wording so
+// renumbered provisions show up as moved rather than removed + added.
+// onProgress is called now and then with the fraction done, from 0 to 1.
+export const compareEditions = (
+  baseRoots: HierarchyNode[],
+  targetRoots: HierarchyNode[],
+  onProgress?: (fraction: number) => void
+): EditionDiff => {
+  const baseNodes = flattenEdition(baseRoots);
+  const targetNodes = flattenEdition(targetRoots);
+  const changes: EditionChange[] = [];
+  let unchanged = 0;
+  // Base node id -> target node id, for every pair including unchanged ones
+  const pairs = new Map<number, number>();
+
+  // Code matching is the first half of the work, fuzzy matching the second
+  const report = (phase: number, done: number, total: number) => {
+    if (onProgress && done % PROGRESS_INTERVAL === 0) {
+      onProgress((phase + done / Math.max(total, 1)) / 2);
+    }
+  };
+
+  const targetByCode = new Map<string, EditionNode>();
+  targetNodes.forEach((node) => {
+    const key = normaliseReferenceCode(node.code);
+    if (key && !targetByCode.has(key)) targetByCode.set(key, node);
+  });
+
+  const matchedTargets = new Set<number>();
+  const unmatchedBase: EditionNode[] = [];
+
+  baseNodes.forEach((base, index) => {
+    report(0, index, baseNodes.length);
+    const target = base.code
+      ? targetByCode.get(normaliseReferenceCode(base.code))
+      : undefined;
+
+    if (
+      !target ||
+      matchedTargets.has(target.id) ||
+      target.content_type !== base.content_type
+    ) {
+      unmatchedBase.push(base);
+      return;
+    }
+
+    matchedTargets.add(target.id);
+    pairs.set(base.id, target.id);
+    if (target.text === base.text) {
+      unchanged++;
+    } else {
+      changes.push({
+        status: "modified",
+        base,
+        target,
+        tokens: diffWords(base.text, target.text),
+      });
+    }
+  });
+
+  const unmatchedTargets = targetNodes.filter(
+    (node) => !matchedTargets.has(node.id)
+  );
+
+  // Word sets are computed once and candidates bucketed by content type
+  const candidatesByType = new Map<ContentType, EditionNode[]>();
+  const targetWords = new Map<number, Set<string>>();
+  unmatchedTargets.forEach((node) => {
+    const bucket = candidatesByType.get(node.content_type) || [];
+    bucket.push(node);
+    candidatesByType.set(node.content_type, bucket);
+    targetWords.set(node.id, words(node.text));
+  });
+
+  unmatchedBase.forEach((base, index) => {
+    report(1, index, unmatchedBase.length);
+    let best: { node: EditionNode; score: number } | null = null;
+    const baseWords = words(base.text);
+    for (const candidate of candidatesByType.get(base.content_type) || []) {
+      if (matchedTargets.has(candidate.id) || !base.text) {
+        continue;
+      }
+      const score = similarity(baseWords, targetWords.get(candidate.id)!);
+      if (score >= FUZZY_MATCH_THRESHOLD && (!best || score > best.score)) {
+        best = { node: candidate, score };
+      }
+    }
+
+    if (best) {
+      matchedTargets.add(best.node.id);
+      pairs.set(base.id, best.node.id);
+      changes.push({
+        status: "moved",
+        base,
+        target: best.node,
+        tokens: diffWords(base.text, best.node.text),
+      });
+    } else {
+      changes.push({ status: "removed", base, target: null, tokens: [] });
+    }
+  });
+
+  unmatchedTargets
+    .filter((node) => !matchedTargets.has(node.id))
+    .forEach((target) => {
+      changes.push({ status: "added", base: null, target, tokens: [] });
+    });
+
+  // Present changes in the order of the newer edition. A removed provision
+  // follows the target of the nearest earlier base provision that was
+  // paired, so it sits where it used to be relative to its neighbours.
+  const targetOrder = new Map<number, number>();
+  targetNodes.forEach((node, index) => targetOrder.set(node.id, index));
+  const removedAnchor = new Map<number, number>();
+  let anchor = -1;
+  baseNodes.forEach((node) => {
+    const paired = pairs.get(node.id);
+    if (paired !== undefined) {
+      anchor = targetOrder.get(paired)!;
+    } else {
+      removedAnchor.set(node.id, anchor);
+    }
+  });
+  // [target position, 0 for target-side changes or 1 for removals]; the sort
+  // is stable, so removals after one anchor keep their base order
+  const position = (change: EditionChange): [number, number] =>
+    change.target
+      ? [targetOrder.get(change.target.id)!, 0]
+      : [removedAnchor.get(change.base!.id)!, 1];
+  changes.sort((a, b) => {
+    const [positionA, sideA] = position(a);
+    const [positionB, sideB] = position(b);
+    return positionA - positionB || sideA - sideB;
+  });
+  onProgress?.(1);
+
+  const summaryByPart = new Map<string, PartSummary>();
+  changes.forEach((change) => {
+    const part = (change.target || change.base)!.part;
+    if (!summaryByPart.has(part)) {
+      summaryByPart.set(part, {
+        part,
+        added: 0,
+        removed: 0,
+        moved: 0,
+        modified: 0,
+      });
+    }
+    summaryByPart.get(part)![change.status]++;
+  });
+
+  return {
+    changes,
+    summary: Array.from(summaryByPart.values()),
+    unchanged,
+  };
+};
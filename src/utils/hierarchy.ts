@@ -0,0 +1,86 @@
+// src/utils/hierarchy.ts
+import { ContentType, HierarchyNode } from "@/types/buildingCode";
+
+export interface HierarchyIndex {
+  nodes: Map<number, HierarchyNode>;
+  parents: Map<number, number | null>;
+}
+
+// Build id -> node and id -> parent lookups for a content tree
+export const indexHierarchy = (roots: HierarchyNode[]): HierarchyIndex => {
+  const nodes = new Map<number, HierarchyNode>();
+  const parents = new Map<number, number | null>();
+
+  const walk = (items: HierarchyNode[], parentId: number | null) => {
+    items.forEach((node) => {
+      nodes.set(node.id, node);
+      parents.set(node.id, parentId ?? node.parent_id ?? null);
+      if (node.children) {
+        walk(node.children, node.id);
+      }
+    });
+  };
+
+  walk(roots, null);
+  return { nodes, parents };
+};
+
+// Ancestors of a node ordered from the root down (the node itself excluded)
+export const getAncestors = (
+  index: HierarchyIndex,
+  id: number
+): HierarchyNode[] => {
+  const ancestors: HierarchyNode[] = [];
+  const seen = new Set<number>([id]);
+  let parentId = index.parents.get(id) ?? null;
+
+  while (parentId !== null && !seen.has(parentId)) {
+    seen.add(parentId);
+    const parent = index.nodes.get(parentId);
+    if (!parent) break;
+    ancestors.unshift(parent);
+    parentId = index.parents.get(parentId) ?? null;
+  }
+
+  return ancestors;
+};
+
+// Merge a branch loaded on its own (see libraryService.getContentBranch) into
+// a content tree, keeping the children already loaded at each level
+export const mergeBranch = (
+  nodes: HierarchyNode[],
+  branch: HierarchyNode
+): HierarchyNode[] => {
+  const existing = nodes.find((node) => node.id === branch.id);
+  if (!existing) {
+    return [...nodes, branch].sort(
+      (a, b) => a.sequence_order - b.sequence_order
+    );
+  }
+  const children = (branch.children ?? []).reduce(
+    (merged, child) => mergeBranch(merged, child),
+    existing.children ?? []
+  );
+  return nodes.map((node) =>
+    node.id === branch.id ? { ...existing, children } : node
+  );
+};
+
+const NUMBERED_HEADING_TYPES: ContentType[] = ["division", "part", "section"];
+
+// Short label used in breadcrumbs, e.g. "Part 9" or "9.8.4.1 Stair Dimensions"
+export const formatNodeLabel = (node: {
+  content_type: ContentType | string;
+  reference_code: string | null;
+  title: string | null;
+}): string => {
+  const type = node.content_type as ContentType;
+  const code = node.reference_code?.trim();
+
+  if (NUMBERED_HEADING_TYPES.includes(type) && code) {
+    const typeName = type.charAt(0).toUpperCase() + type.slice(1);
+    return code.toLowerCase().startsWith(type) ? code : `${typeName} ${code}`;
+  }
+
+  return [code, node.title?.trim()].filter(Boolean).join(" ") || type;
+};
@@ -0,0 +1,87 @@
+// src/utils/previews.ts
+import { Reference } from "@/types/buildingCode";
+import { HierarchyIndex } from "@/utils/hierarchy";
+
+export interface ProvisionPreview {
+  id: number;
+  reference_code: string | null;
+  title: string | null;
+  text: string;
+  truncated: boolean;
+}
+
+const PREVIEW_LENGTH = 300;
+
+// Text of a node and its descendants, so an article preview shows its sentences
+const collectText = (
+  index: HierarchyIndex,
+  id: number,
+  limit: number
+): string => {
+  const parts: string[] = [];
+  let length = 0;
+
+  const walk = (nodeId: number) => {
+    if (length > limit) return;
+    const node = index.nodes.get(nodeId);
+    if (!node) return;
+    const text = [node.reference_code, node.content_text]
+      .filter(Boolean)
+      .join(" ");
+    if (text && node.content_text !== node.title) {
+      parts.push(text);
+      length += text.length + 1;
+    }
+    node.children?.forEach((child) => walk(child.id));
+  };
+
+  const root = index.nodes.get(id);
+  if (root?.content_text && root.content_text !== root.title) {
+    parts.push(root.content_text);
+    length += root.content_text.length;
+  }
+  root?.children?.forEach((child) => walk(child.id));
+
+  return parts.join(" ");
+};
+
+const truncate = (text: string) => ({
+  text:
+    text.length > PREVIEW_LENGTH
+      ? `${text.substring(0, PREVIEW_LENGTH).trimEnd()}…`
+      : text,
+  truncated: text.length > PREVIEW_LENGTH,
+});
+
+// Preview of a reference target, preferring what the backend embedded in the
+// reference and falling back to the loaded content tree
+export const resolveReferencePreview = (
+  reference: Reference,
+  index: HierarchyIndex
+): ProvisionPreview | null => {
+  const targetId = reference.target_content_id;
+  const target = reference.target_content;
+
+  if (target) {
+    const text =
+      target.content_text && target.content_text !== target.title
+        ? target.content_text
+        : collectText(index, target.id, PREVIEW_LENGTH);
+    return {
+      id: target.id,
+      reference_code: target.reference_code,
+      title: target.title,
+      ...truncate(text),
+    };
+  }
+
+  const node = targetId ? index.nodes.get(targetId) : undefined;
+  if (!node) return null;
+
+  return {
+    id: node.id,
+    reference_code: node.reference_code || reference.target_reference_code,
+    title: node.title,
+    ...truncate(collectText(index, node.id, PREVIEW_LENGTH)),
+  };
+};
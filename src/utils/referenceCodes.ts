@@ -0,0 +1,218 @@
+// src/utils/referenceCodes.ts
+import { HierarchyNode } from "@/types/buildingCode";
+
+export interface ReferenceCodeIndex {
+  // normalised full code -> content id, plus "b|3.2.5" keys scoped by Division
+  // since Divisions A and B reuse the same numbering
+  byCode: Map<string, number>;
+  // content id -> full code as displayed, e.g. "9.8.4.1(2)(a)"
+  fullCodes: Map<number, string>;
+  // content id -> letter of the Division it sits in, e.g. "b"
+  divisions: Map<number, string>;
+}
+
+export interface ReferenceCodeMatch {
+  id: number;
+  code: string;
+  exact: boolean;
+}
+
+// Words people put in front of a code: "Sentence 9.8.4.1.(2)", "Div B 3.2.5"
+const LEADING_WORDS =
+  /^(?:(?:div(?:ision)?|part|section|subsection|article|sentence|clause|subclause|art\.?|s\.?)\s*[a-z]?\s+)+/i;
+
+// Canonical form used for lookups: no spaces, no "." before a bracket or at
+// the end, lower case. "9.8.4.1.(2)" and "9.8.4.1 (2)" both become "9.8.4.1(2)".
+export const normaliseReferenceCode = (code: string): string =>
+  code
+    .trim()
+    .replace(LEADING_WORDS, "")
+    .replace(/\s+/g, "")
+    .replace(/\.+(?=\()/g, "")
+    .replace(/\.+$/, "")
+    .toLowerCase();
+
+const isSuffixCode = (code: string) => code.trim().startsWith("(");
+
+const DIVISION_PREFIX = /^\s*div(?:ision)?\.?\s*([a-z])\b/i;
+
+// Division letter of a division node ("Division B", "B") or of typed input
+const divisionLetter = (value: string | null | undefined) => {
+  if (!value) return null;
+  const match = value.match(DIVISION_PREFIX) || value.match(/^\s*([a-z])\s*$/i);
+  return match ? match[1].toLowerCase() : null;
+};
+
+// Full codes for every node: sentence and clause codes such as "(2)" or "(a)"
+// only make sense appended to the code of their numbered ancestor
+export const buildReferenceCodeIndex = (
+  roots: HierarchyNode[]
+): ReferenceCodeIndex => {
+  const byCode = new Map<string, number>();
+  const fullCodes = new Map<number, string>();
+  const divisions = new Map<number, string>();
+
+  const walk = (
+    nodes: HierarchyNode[],
+    prefix: string,
+    division: string | null
+  ) => {
+    nodes.forEach((node) => {
+      const code = node.reference_code?.trim() || "";
+      let fullCode = prefix;
+      const nodeDivision =
+        node.content_type === "division"
+          ? divisionLetter(node.reference_code) || divisionLetter(node.title)
+          : division;
+
+      if (code) {
+        fullCode = isSuffixCode(code)
+          ? `${prefix.replace(/\.+$/, "")}${code}`
+          : code.replace(/\.+$/, "");
+        fullCodes.set(node.id, fullCode);
+        if (nodeDivision) divisions.set(node.id, nodeDivision);
+
+        const key = normaliseReferenceCode(fullCode);
+        if (key && !byCode.has(key)) {
+          byCode.set(key, node.id);
+        }
+        if (key && nodeDivision && !byCode.has(`${nodeDivision}|${key}`)) {
+          byCode.set(`${nodeDivision}|${key}`, node.id);
+        }
+      }
+
+      if (node.children) {
+        walk(node.children, fullCode, nodeDivision);
+      }
+    });
+  };
+
+  walk(roots, "", null);
+  return { byCode, fullCodes, divisions };
+};
+
+// Full code with its Division, e.g. "Div B 3.2.5", so provisions that share
+// numbering across Divisions stay apart; resolveReferenceCode reads it back
+export const scopedReferenceCode = (
+  index: ReferenceCodeIndex,
+  id: number
+): string | null => {
+  const code = index.fullCodes.get(id);
+  if (!code) return null;
+  const division = index.divisions.get(id);
+  return division ? `Div ${division.toUpperCase()} ${code}` : code;
+};
+
+// Shorter candidates for an unknown code, most specific first:
+// "9.8.4.7(2)(a)" -> "9.8.4.7(2)", "9.8.4.7", "9.8.4", "9.8", "9"
+const broaderCodes = (code: string): string[] => {
+  const candidates: string[] = [];
+  let current = code;
+
+  while (current) {
+    const next = current.includes("(")
+      ? current.replace(/\([^()]*\)$/, "")
+      : current.includes(".")
+      ? current.replace(/\.[^.]*$/, "")
+      : "";
+    if (next === current) break;
+    if (next) candidates.push(next);
+    current = next;
+  }
+
+  return candidates;
+};
+
+// Longest shared prefix, for codes that share no exact ancestor
+const sharedPrefixLength = (a: string, b: string) => {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) {
+    length++;
+  }
+  return length;
+};
+
+// Resolve a code typed in a URL or search box. Unknown codes return the
+// closest existing provision with exact set to false.
+export const resolveReferenceCode = (
+  index: ReferenceCodeIndex,
+  code: string
+): ReferenceCodeMatch | null => {
+  const key = normaliseReferenceCode(code);
+  if (!key) return null;
+
+  const division = divisionLetter(code);
+  const lookup = (candidate: string) =>
+    (division ? index.byCode.get(`${division}|${candidate}`) : undefined) ??
+    index.byCode.get(candidate);
+
+  const exactId = lookup(key);
+  if (exactId !== undefined) {
+    return { id: exactId, code: index.fullCodes.get(exactId)!, exact: true };
+  }
+
+  for (const candidate of broaderCodes(key)) {
+    const id = lookup(candidate);
+    if (id !== undefined) {
+      return { id, code: index.fullCodes.get(id)!, exact: false };
+    }
+  }
+
+  let bestId: number | null = null;
+  let bestScore = 0;
+  for (const [candidate, id] of Array.from(index.byCode.entries())) {
+    if (candidate.includes("|")) continue;
+    const score = sharedPrefixLength(key, candidate);
+    if (score > bestScore) {
+      bestId = id;
+      bestScore = score;
+    }
+  }
+
+  return bestId !== null
+    ? { id: bestId, code: index.fullCodes.get(bestId)!, exact: false }
+    : null;
+};
+
+// Codes starting with what has been typed so far, shortest (broadest) first
+export const suggestReferenceCodes = (
+  index: ReferenceCodeIndex,
+  input: string,
+  limit: number = 10
+): ReferenceCodeMatch[] => {
+  const key = normaliseReferenceCode(input);
+  if (!key) return [];
+
+  const division = divisionLetter(input);
+  const scope = division ? `${division}|` : "";
+  const seen = new Set<number>();
+  const matches: ReferenceCodeMatch[] = [];
+
+  for (const [candidate, id] of Array.from(index.byCode.entries())) {
+    if (scope ? !candidate.startsWith(scope) : candidate.includes("|")) {
+      continue;
+    }
+    const code = scope ? candidate.slice(scope.length) : candidate;
+    if (!code.startsWith(key) || seen.has(id)) continue;
+
+    seen.add(id);
+    matches.push({
+      id,
+      code: index.fullCodes.get(id)!,
+      exact: code === key,
+    });
+  }
+
+  return matches
+    .sort(
+      (a, b) =>
+        Number(b.exact) - Number(a.exact) ||
+        a.code.length - b.code.length ||
+        a.code.localeCompare(b.code, undefined, { numeric: true })
+    )
+    .slice(0, limit);
+};
+
+// Human-readable deep link to a provision, e.g. /document/abc/9.8.4.1(2)
+export const buildProvisionPath = (documentId: string, code: string) =>
+  `/document/${documentId}/${encodeURIComponent(code)}`;
@@ -0,0 +1,181 @@
+// src/utils/searchFacets.ts
+
+// Library facets shared by the document list and full-text search hits
+export type FacetName =
+  | "jurisdiction"
+  | "documentType"
+  | "language"
+  | "year"
+  | "contentType";
+
+export const FACET_NAMES: FacetName[] = [
+  "jurisdiction",
+  "documentType",
+  "language",
+  "year",
+  "contentType",
+];
+
+// Facet values of one document or hit; null where unknown or not applicable
+export interface FacetValues {
+  jurisdiction: string | null;
+  documentType: string | null;
+  language: string | null;
+  year: number | null;
+  contentType: string | null;
+}
+
+export interface FacetSelection {
+  // Jurisdiction code, or "all"
+  jurisdiction: string;
+  // Empty sets leave a facet unrestricted
+  documentTypes: Set<string>;
+  languages: Set<string>;
+  yearFrom: number | null;
+  yearTo: number | null;
+  contentTypes: Set<string>;
+}
+
+export interface FacetCounts {
+  // Items per value of a facet, counted under every other active facet so
+  // each number is what selecting that value would show
+  values: Record<FacetName, Map<string, number>>;
+  // Items matching every facet except the one named
+  totals: Record<FacetName, number>;
+}
+
+// Counts as the search API returns them, over every hit of a query
+export interface FacetCountsResponse {
+  values: Record<FacetName, Record<string, number>>;
+  totals: Record<FacetName, number>;
+}
+
+// Key counting items with no value for a facet, e.g. a hit whose document
+// is not in the library list
+export const UNKNOWN_FACET_VALUE = "unknown";
+
+// Unknown values are never filtered out: an item is only excluded for a
+// value it is known to have
+const matchesFacet = (
+  values: FacetValues,
+  selection: FacetSelection,
+  facet: FacetName
+): boolean => {
+  switch (facet) {
+    case "jurisdiction":
+      return (
+        selection.jurisdiction === "all" ||
+        values.jurisdiction === null ||
+        values.jurisdiction.toLowerCase() ===
+          selection.jurisdiction.toLowerCase()
+      );
+    case "documentType":
+      return (
+        selection.documentTypes.size === 0 ||
+        values.documentType === null ||
+        selection.documentTypes.has(values.documentType)
+      );
+    case "language":
+      return (
+        selection.languages.size === 0 ||
+        values.language === null ||
+        selection.languages.has(values.language)
+      );
+    case "year":
+      if (selection.yearFrom === null && selection.yearTo === null) {
+        return true;
+      }
+      return (
+        values.year === null ||
+        ((selection.yearFrom === null || values.year >= selection.yearFrom) &&
+          (selection.yearTo === null || values.year <= selection.yearTo))
+      );
+    case "contentType":
+      // Documents have no content type and are not narrowed by it
+      return (
+        selection.contentTypes.size === 0 ||
+        values.contentType === null ||
+        selection.contentTypes.has(values.contentType)
+      );
+  }
+};
+
+export const matchesFacets = (
+  values: FacetValues,
+  selection: FacetSelection,
+  except?: FacetName
+) =>
+  FACET_NAMES.every(
+    (facet) => facet === except || matchesFacet(values, selection, facet)
+  );
+
+export const countFacets = <T>(
+  items: T[],
+  valuesOf: (item: T) => FacetValues,
+  selection: FacetSelection
+): FacetCounts => {
+  const values = {} as Record<FacetName, Map<string, number>>;
+  const totals = {} as Record<FacetName, number>;
+  FACET_NAMES.forEach((facet) => {
+    values[facet] = new Map();
+    totals[facet] = 0;
+  });
+
+  items.forEach((item) => {
+    const itemValues = valuesOf(item);
+    FACET_NAMES.forEach((facet) => {
+      if (!matchesFacets(itemValues, selection, facet)) return;
+      totals[facet]++;
+      const value = itemValues[facet];
+      // Documents have no content type at all, rather than an unknown one
+      if (value === null && facet === "contentType") return;
+      const key =
+        value === null
+          ? UNKNOWN_FACET_VALUE
+          : facet === "jurisdiction"
+          ? String(value).toLowerCase()
+          : String(value);
+      values[facet].set(key, (values[facet].get(key) ?? 0) + 1);
+    });
+  });
+
+  return { values, totals };
+};
+
+// Counts reported by the search API, in the shape countFacets produces
+export const facetCountsFromResponse = (
+  response: FacetCountsResponse | undefined
+): FacetCounts => {
+  const values = {} as Record<FacetName, Map<string, number>>;
+  const totals = {} as Record<FacetName, number>;
+  FACET_NAMES.forEach((facet) => {
+    values[facet] = new Map(Object.entries(response?.values[facet] ?? {}));
+    totals[facet] = response?.totals[facet] ?? 0;
+  });
+  return { values, totals };
+};
+
+// Selection as search API parameters, so the server filters and counts
+// every hit rather than one page of them
+export const facetSearchParams = (
+  selection: FacetSelection
+): [string, string][] => {
+  const params: [string, string][] = [];
+  if (selection.jurisdiction !== "all") {
+    params.push(["jurisdiction", selection.jurisdiction]);
+  }
+  selection.documentTypes.forEach((type) =>
+    params.push(["documentType", type])
+  );
+  selection.languages.forEach((language) =>
+    params.push(["language", language])
+  );
+  if (selection.yearFrom !== null) {
+    params.push(["yearFrom", String(selection.yearFrom)]);
+  }
+  if (selection.yearTo !== null) {
+    params.push(["yearTo", String(selection.yearTo)]);
+  }
+  selection.contentTypes.forEach((type) => params.push(["contentType", type]));
+  return params;
+};
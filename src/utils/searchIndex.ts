@@ -0,0 +1,411 @@
+// src/utils/searchIndex.ts
+import { HierarchyNode } from "@/types/buildingCode";
+import {
+  HighlightTerm,
+  MatchRange,
+  QueryNode,
+  SearchQuery,
+  findMatchRanges,
+  matchesSearchQuery,
+  parseSearchQuery,
+} from "@/utils/searchQuery";
+
+// One content item as indexed; plain data so it can be posted to a worker
+export interface IndexedDocument {
+  id: number;
+  type: string;
+  codes: string[];
+  title: string;
+  text: string;
+}
+
+export interface SearchSnippet {
+  text: string;
+  // Hits within text, to be marked
+  ranges: MatchRange[];
+}
+
+export interface SearchHit {
+  id: number;
+  score: number;
+  snippet: SearchSnippet | null;
+}
+
+interface Posting {
+  doc: number;
+  // Weighted term frequency over code, title and text
+  frequency: number;
+}
+
+export interface SearchIndex {
+  documents: IndexedDocument[];
+  postings: Map<string, Posting[]>;
+  // Word as written -> stem, for expanding prefix terms
+  words: Map<string, string>;
+  lengths: number[];
+  averageLength: number;
+  // Code, title and text of each document, lower-cased for substring matches
+  texts: string[];
+}
+
+// Matches in a reference code count most, then titles, then body text
+const FIELD_WEIGHTS = { code: 4, title: 3, text: 1 };
+
+// BM25 saturation and length normalisation
+const K1 = 1.2;
+const B = 0.75;
+
+const SNIPPET_CONTEXT = 60;
+const SNIPPET_LENGTH = 180;
+
+const STOP_WORDS = new Set(
+  (
+    "a an and are as at be been but by for from has have if in into is it its " +
+    "no not of on or such that the their then there these they this to was " +
+    "were which will with shall may must than other any all each"
+  ).split(" ")
+);
+
+// Words, numbers and dotted codes such as 9.8.4.1
+const TOKEN = /[a-z0-9\u00c0-\u024f]+(?:\.[a-z0-9\u00c0-\u024f]+)*/g;
+
+interface Token {
+  word: string;
+  start: number;
+  end: number;
+}
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  const lower = text.toLowerCase();
+  TOKEN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = TOKEN.exec(lower))) {
+    tokens.push({
+      word: match[0],
+      start: match.index,
+      end: match.index + match[0].length,
+    });
+  }
+  return tokens;
+};
+
+// Light suffix stripping in the spirit of Porter's first steps, enough for
+// "guards"/"guarded"/"guarding" and "separate"/"separated"/"separation" to
+// share a stem. Numbers and codes are left alone.
+export const stem = (word: string): string => {
+  if (word.length <= 3 || /\d/.test(word)) return word;
+
+  let result = word;
+  if (result.endsWith("sses")) {
+    result = result.slice(0, -2);
+  } else if (result.endsWith("ies") && result.length > 4) {
+    result = `${result.slice(0, -3)}y`;
+  } else if (
+    result.endsWith("s") &&
+    !/(ss|us|is)$/.test(result) &&
+    result.length > 3
+  ) {
+    result = result.slice(0, -1);
+  }
+
+  const suffixes: [string, string][] = [
+    ["ational", "ate"],
+    ["ization", "ize"],
+    ["ation", "ate"],
+    ["ement", ""],
+    ["ment", ""],
+    ["ness", ""],
+    ["ing", ""],
+    ["ed", ""],
+    ["ly", ""],
+  ];
+  for (const [suffix, replacement] of suffixes) {
+    if (
+      result.endsWith(suffix) &&
+      result.length - suffix.length + replacement.length >= 3 &&
+      /[aeiouy]/.test(result.slice(0, -suffix.length))
+    ) {
+      result = result.slice(0, -suffix.length) + replacement;
+      // "stopped" -> "stop", but "fall", "pass", "buzz" keep their pair
+      if (
+        (suffix === "ing" || suffix === "ed") &&
+        /([^aeiouylsz])\1$/.test(result)
+      ) {
+        result = result.slice(0, -1);
+      }
+      break;
+    }
+  }
+
+  if (result.endsWith("e") && result.length > 4) {
+    result = result.slice(0, -1);
+  }
+  return result;
+};
+
+const indexTerms = (text: string) =>
+  tokenize(text)
+    .filter((token) => !STOP_WORDS.has(token.word))
+    .map((token) => ({ ...token, stem: stem(token.word) }));
+
+// Flatten a content tree into indexable documents, in document order
+export const toIndexedDocuments = (
+  nodes: HierarchyNode[],
+  fullCodes: Map<number, string>
+): IndexedDocument[] => {
+  const documents: IndexedDocument[] = [];
+  const walk = (items: HierarchyNode[]) =>
+    items.forEach((node) => {
+      const codes = [node.reference_code, fullCodes.get(node.id)].filter(
+        (code): code is string => !!code
+      );
+      const title = node.title || "";
+      documents.push({
+        id: node.id,
+        type: node.content_type,
+        codes: Array.from(new Set(codes)),
+        title,
+        text:
+          node.content_text && node.content_text !== title
+            ? node.content_text
+            : "",
+      });
+      if (node.children) walk(node.children);
+    });
+  walk(nodes);
+  return documents;
+};
+
+const searchableItem = (document: IndexedDocument) => ({
+  text: [...document.codes, document.title, document.text].join(" "),
+  type: document.type,
+  codes: document.codes,
+});
+
+export const buildSearchIndex = (documents: IndexedDocument[]): SearchIndex => {
+  const postings = new Map<string, Posting[]>();
+  const words = new Map<string, string>();
+  const lengths: number[] = [];
+
+  documents.forEach((document, doc) => {
+    const frequencies = new Map<string, number>();
+    let length = 0;
+    const add = (text: string, weight: number) =>
+      indexTerms(text).forEach((term) => {
+        words.set(term.word, term.stem);
+        frequencies.set(term.stem, (frequencies.get(term.stem) ?? 0) + weight);
+        length += weight;
+      });
+
+    add(document.codes.join(" "), FIELD_WEIGHTS.code);
+    add(document.title, FIELD_WEIGHTS.title);
+    add(document.text, FIELD_WEIGHTS.text);
+
+    lengths.push(length);
+    frequencies.forEach((frequency, term) => {
+      let list = postings.get(term);
+      if (!list) {
+        list = [];
+        postings.set(term, list);
+      }
+      list.push({ doc, frequency });
+    });
+  });
+
+  const total = lengths.reduce((sum, length) => sum + length, 0);
+  return {
+    documents,
+    postings,
+    words,
+    lengths,
+    averageLength: documents.length > 0 ? total / documents.length : 0,
+    texts: documents.map((document) =>
+      searchableItem(document).text.replace(/\s+/g, " ").trim().toLowerCase()
+    ),
+  };
+};
+
+// Stems a term or phrase looks up: its own words, or for a prefix term the
+// stems of every indexed word starting with it
+const termStems = (index: SearchIndex, term: HighlightTerm): string[] => {
+  if (term.prefix) {
+    const stems = new Set<string>();
+    index.words.forEach((wordStem, word) => {
+      if (word.startsWith(term.value)) stems.add(wordStem);
+    });
+    return Array.from(stems);
+  }
+  return indexTerms(term.value).map((token) => token.stem);
+};
+
+const docsWith = (index: SearchIndex, stemValue: string) =>
+  new Set((index.postings.get(stemValue) ?? []).map((posting) => posting.doc));
+
+const intersect = (sets: Set<number>[]) => {
+  if (sets.length === 0) return new Set<number>();
+  const [smallest, ...rest] = [...sets].sort((a, b) => a.size - b.size);
+  return new Set(
+    Array.from(smallest).filter((doc) => rest.every((set) => set.has(doc)))
+  );
+};
+
+// Documents matching a query node. Terms and phrases match as substrings, as
+// typed, so "stai" and "9.8" find results while typing; a single word also
+// matches on its stem, so "guards" finds "guard". Prefix terms look up every
+// indexed word starting with them, falling back to a scan for terms with no
+// indexable word such as "(a*".
+const evaluate = (index: SearchIndex, node: QueryNode): Set<number> => {
+  const scan = (test: (doc: number) => boolean) =>
+    new Set(index.documents.map((_, doc) => doc).filter(test));
+  const matchesAlone = (doc: number) =>
+    matchesSearchQuery(
+      { root: node, highlightTerms: [] },
+      searchableItem(index.documents[doc])
+    );
+
+  switch (node.kind) {
+    case "term":
+      if (node.prefix) {
+        const stems = termStems(index, node);
+        if (stems.length === 0) return scan(matchesAlone);
+        return new Set(
+          stems.flatMap((value) => Array.from(docsWith(index, value)))
+        );
+      } else {
+        const matches = scan((doc) => index.texts[doc].includes(node.value));
+        const stems = termStems(index, node);
+        if (stems.length === 1) {
+          docsWith(index, stems[0]).forEach((doc) => matches.add(doc));
+        }
+        return matches;
+      }
+    case "phrase":
+      return scan((doc) => index.texts[doc].includes(node.value));
+    case "field":
+      return scan(matchesAlone);
+    case "not": {
+      const excluded = evaluate(index, node.operand);
+      return scan((doc) => !excluded.has(doc));
+    }
+    case "and":
+      return intersect(
+        node.operands.map((operand) => evaluate(index, operand))
+      );
+    case "or": {
+      const union = new Set<number>();
+      node.operands.forEach((operand) =>
+        evaluate(index, operand).forEach((doc) => union.add(doc))
+      );
+      return union;
+    }
+  }
+};
+
+// BM25 scores over the weighted code/title/text frequencies of the query's
+// stems, for every document containing at least one of them
+const scoreDocuments = (index: SearchIndex, stems: string[]) => {
+  const total = index.documents.length;
+  const scores = new Map<number, number>();
+  stems.forEach((value) => {
+    const list = index.postings.get(value);
+    if (!list) return;
+    const idf = Math.log(1 + (total - list.length + 0.5) / (list.length + 0.5));
+    list.forEach(({ doc, frequency }) => {
+      const norm =
+        1 - B + (B * index.lengths[doc]) / (index.averageLength || 1);
+      scores.set(
+        doc,
+        (scores.get(doc) ?? 0) +
+          (idf * frequency * (K1 + 1)) / (frequency + K1 * norm)
+      );
+    });
+  });
+  return scores;
+};
+
+// Window of text around the first hit, with every hit in it marked. Words
+// sharing a stem with the query count as hits as well as literal matches.
+export const buildSnippet = (
+  text: string,
+  terms: HighlightTerm[],
+  stems: Set<string>
+): SearchSnippet | null => {
+  if (!text) return null;
+
+  const stemRanges = indexTerms(text)
+    .filter((token) => stems.has(token.stem))
+    .map(({ start, end }) => ({ start, end }));
+  const ranges = [...findMatchRanges(text, terms), ...stemRanges]
+    .sort((a, b) => a.start - b.start)
+    .reduce<MatchRange[]>((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && range.start <= last.end) {
+        last.end = Math.max(last.end, range.end);
+      } else {
+        merged.push({ ...range });
+      }
+      return merged;
+    }, []);
+
+  let start =
+    ranges.length > 0 ? Math.max(0, ranges[0].start - SNIPPET_CONTEXT) : 0;
+  if (start > 0) {
+    // Start at a word boundary
+    const space = text.indexOf(" ", start);
+    if (space !== -1 && space < ranges[0].start) start = space + 1;
+  }
+  let end = Math.min(text.length, start + SNIPPET_LENGTH);
+  if (end < text.length) {
+    const space = text.lastIndexOf(" ", end);
+    if (space > start) end = space;
+  }
+
+  const prefix = start > 0 ? "…" : "";
+  return {
+    text: `${prefix}${text.slice(start, end)}${end < text.length ? "…" : ""}`,
+    ranges: ranges
+      .filter((range) => range.start < end && range.end > start)
+      .map((range) => ({
+        start: Math.max(range.start, start) - start + prefix.length,
+        end: Math.min(range.end, end) - start + prefix.length,
+      })),
+  };
+};
+
+// Ranked hits for a query, best first; equally scored hits (e.g. matched
+// only by type: or code: filters) stay in document order
+export const searchDocuments = (
+  index: SearchIndex,
+  input: string
+): SearchHit[] => {
+  const query: SearchQuery = parseSearchQuery(input);
+  if (!query.root) return [];
+
+  // A word still being typed, such as "stai", ranks by the words it starts
+  const rankingStems = (term: HighlightTerm) => {
+    const stems = termStems(index, term);
+    return stems.length === 1 && !index.postings.has(stems[0])
+      ? termStems(index, { value: term.value, prefix: true })
+      : stems;
+  };
+  const stems = Array.from(new Set(query.highlightTerms.flatMap(rankingStems)));
+  const stemSet = new Set(stems);
+  const scores = scoreDocuments(index, stems);
+
+  return Array.from(evaluate(index, query.root))
+    .map((doc) => ({ doc, score: scores.get(doc) ?? 0 }))
+    .sort((a, b) => b.score - a.score || a.doc - b.doc)
+    .map(({ doc, score }) => {
+      const document = index.documents[doc];
+      return {
+        id: document.id,
+        score,
+        snippet: buildSnippet(
+          document.text || document.title,
+          query.highlightTerms,
+          stemSet
+        ),
+      };
+    });
+};
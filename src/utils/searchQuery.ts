@@ -0,0 +1,292 @@
+// src/utils/searchQuery.ts
+import { normaliseReferenceCode } from "@/utils/referenceCodes";
+
+// Parsed in-document search query. Terms match as case-insensitive
+// substrings, "fire*" matches words starting with "fire", "exit stair" in
+// quotes matches the phrase, type:sentence and code:9.8.* filter by content
+// type and reference code. Terms next to each other are ANDed; AND, OR and
+// NOT (upper case) combine them, NOT binding tightest and OR loosest.
+export type SearchField = "type" | "code";
+
+export type QueryNode =
+  | { kind: "term"; value: string; prefix: boolean }
+  | { kind: "phrase"; value: string }
+  | { kind: "field"; field: SearchField; value: string; prefix: boolean }
+  | { kind: "not"; operand: QueryNode }
+  | { kind: "and"; operands: QueryNode[] }
+  | { kind: "or"; operands: QueryNode[] };
+
+// Text to mark in results; prefix terms extend to the end of the word
+export interface HighlightTerm {
+  value: string;
+  prefix: boolean;
+}
+
+export interface SearchQuery {
+  root: QueryNode | null;
+  highlightTerms: HighlightTerm[];
+}
+
+// What a query is matched against for one content item
+export interface SearchableItem {
+  text: string;
+  type: string;
+  codes: string[];
+}
+
+export interface MatchRange {
+  start: number;
+  end: number;
+}
+
+type Token =
+  | { kind: "word"; value: string }
+  | { kind: "phrase"; value: string }
+  | { kind: "operator"; value: "AND" | "OR" | "NOT" };
+
+const FIELDS: SearchField[] = ["type", "code"];
+
+const isWordChar = (char: string | undefined) =>
+  !!char && /[a-z0-9_\u00c0-\u024f]/i.test(char);
+
+const normaliseSpaces = (value: string) =>
+  value.replace(/\s+/g, " ").trim().toLowerCase();
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < input.length) {
+    const char = input[position];
+    if (/\s/.test(char)) {
+      position++;
+      continue;
+    }
+
+    if (char === '"') {
+      // An unclosed quote runs to the end of the input
+      const close = input.indexOf('"', position + 1);
+      const end = close === -1 ? input.length : close;
+      const value = normaliseSpaces(input.slice(position + 1, end));
+      if (value) tokens.push({ kind: "phrase", value });
+      position = end + 1;
+      continue;
+    }
+
+    let end = position;
+    while (end < input.length && !/[\s"]/.test(input[end])) end++;
+    const word = input.slice(position, end);
+    position = end;
+
+    if (word === "AND" || word === "OR" || word === "NOT") {
+      tokens.push({ kind: "operator", value: word });
+    } else {
+      tokens.push({ kind: "word", value: word });
+    }
+  }
+
+  return tokens;
+};
+
+// A word token as a term or field filter, or null when nothing is left of it
+const parseWord = (word: string): QueryNode | null => {
+  const colon = word.indexOf(":");
+  const field = word.slice(0, colon).toLowerCase() as SearchField;
+  if (colon > 0 && FIELDS.includes(field)) {
+    const raw = word.slice(colon + 1);
+    const prefix = raw.endsWith("*");
+    const value = raw.replace(/\*+$/, "").toLowerCase();
+    return value ? { kind: "field", field, value, prefix } : null;
+  }
+
+  const prefix = word.endsWith("*");
+  const value = word.replace(/\*+$/, "").toLowerCase();
+  return value ? { kind: "term", value, prefix } : null;
+};
+
+const combine = (kind: "and" | "or", operands: QueryNode[]) =>
+  operands.length === 1 ? operands[0] : { kind, operands };
+
+// Recursive descent over the tokens. Dangling operators ("fire AND", "OR
+// exit") are dropped rather than reported, since queries are run as typed.
+const parseTokens = (tokens: Token[]): QueryNode | null => {
+  let position = 0;
+
+  const isOperator = (value: string) => {
+    const token = tokens[position];
+    return token?.kind === "operator" && token.value === value;
+  };
+
+  const parseUnary = (): QueryNode | null => {
+    const token = tokens[position];
+    if (!token) return null;
+    position++;
+
+    if (token.kind === "operator") {
+      if (token.value !== "NOT") return null;
+      const operand = parseUnary();
+      return operand ? { kind: "not", operand } : null;
+    }
+    if (token.kind === "phrase") {
+      return { kind: "phrase", value: token.value };
+    }
+    return parseWord(token.value);
+  };
+
+  const parseAnd = (): QueryNode | null => {
+    const operands: QueryNode[] = [];
+    while (position < tokens.length && !isOperator("OR")) {
+      if (isOperator("AND")) {
+        position++;
+        continue;
+      }
+      const operand = parseUnary();
+      if (operand) operands.push(operand);
+    }
+    return operands.length > 0 ? combine("and", operands) : null;
+  };
+
+  const operands: QueryNode[] = [];
+  while (position < tokens.length) {
+    if (isOperator("OR")) {
+      position++;
+      continue;
+    }
+    const operand = parseAnd();
+    if (operand) operands.push(operand);
+  }
+  return operands.length > 0 ? combine("or", operands) : null;
+};
+
+// Terms and phrases the query asks to find, leaving out negated ones
+const collectHighlightTerms = (
+  node: QueryNode | null,
+  terms: HighlightTerm[] = []
+): HighlightTerm[] => {
+  if (!node) return terms;
+  switch (node.kind) {
+    case "term":
+      terms.push({ value: node.value, prefix: node.prefix });
+      break;
+    case "phrase":
+      terms.push({ value: node.value, prefix: false });
+      break;
+    case "and":
+    case "or":
+      node.operands.forEach((operand) => collectHighlightTerms(operand, terms));
+      break;
+  }
+  return terms;
+};
+
+export const parseSearchQuery = (input: string): SearchQuery => {
+  const root = parseTokens(tokenize(input));
+  return { root, highlightTerms: collectHighlightTerms(root) };
+};
+
+// Whether a word starting with value occurs in text (both lower case)
+const containsWordPrefix = (text: string, value: string) => {
+  let index = text.indexOf(value);
+  while (index !== -1) {
+    if (!isWordChar(text[index - 1])) return true;
+    index = text.indexOf(value, index + 1);
+  }
+  return false;
+};
+
+const matchesCode = (code: string, value: string, prefix: boolean) => {
+  const normalised = normaliseReferenceCode(code);
+  const wanted = normaliseReferenceCode(value);
+  if (!wanted) return false;
+  if (!prefix) return normalised === wanted;
+  if (!normalised.startsWith(wanted)) return false;
+  // "9.8.*" stops at a level boundary so it does not take in 9.80
+  if (/[.(]$/.test(value)) {
+    const next = normalised[wanted.length];
+    return next === undefined || next === "." || next === "(";
+  }
+  return true;
+};
+
+const matchesNode = (
+  node: QueryNode,
+  text: string,
+  item: SearchableItem
+): boolean => {
+  switch (node.kind) {
+    case "term":
+      return node.prefix
+        ? containsWordPrefix(text, node.value)
+        : text.includes(node.value);
+    case "phrase":
+      return text.includes(node.value);
+    case "field":
+      if (node.field === "type") {
+        const type = item.type.toLowerCase();
+        return node.prefix ? type.startsWith(node.value) : type === node.value;
+      }
+      return item.codes.some((code) =>
+        matchesCode(code, node.value, node.prefix)
+      );
+    case "not":
+      return !matchesNode(node.operand, text, item);
+    case "and":
+      return node.operands.every((operand) => matchesNode(operand, text, item));
+    case "or":
+      return node.operands.some((operand) => matchesNode(operand, text, item));
+  }
+};
+
+export const matchesSearchQuery = (
+  query: SearchQuery,
+  item: SearchableItem
+): boolean =>
+  query.root !== null &&
+  matchesNode(query.root, normaliseSpaces(item.text), item);
+
+// Non-overlapping ranges of text to highlight for the given terms, found by
+// plain string search so no user input ends up in a regular expression
+export const findMatchRanges = (
+  text: string,
+  terms: HighlightTerm[]
+): MatchRange[] => {
+  const lower = text.toLowerCase();
+  const ranges: MatchRange[] = [];
+
+  terms.forEach((term) => {
+    // Phrases were whitespace-normalised; let any run of spaces match one
+    const parts = term.value.split(" ");
+    let index = lower.indexOf(parts[0]);
+    while (index !== -1) {
+      let end = index + parts[0].length;
+      let matched = true;
+      for (const part of parts.slice(1)) {
+        const spaces = lower.slice(end).match(/^\s+/);
+        if (!spaces || !lower.startsWith(part, end + spaces[0].length)) {
+          matched = false;
+          break;
+        }
+        end += spaces[0].length + part.length;
+      }
+
+      if (matched && term.prefix) {
+        matched = !isWordChar(lower[index - 1]);
+        while (matched && isWordChar(lower[end])) end++;
+      }
+      if (matched) ranges.push({ start: index, end });
+      index = lower.indexOf(parts[0], index + 1);
+    }
+  });
+
+  // Merge overlaps, e.g. "fire" and "fire separation" both matching
+  ranges.sort((a, b) => a.start - b.start);
+  return ranges.reduce<MatchRange[]>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+    return merged;
+  }, []);
+};
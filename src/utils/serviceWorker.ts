@@ -0,0 +1,25 @@
+// src/utils/serviceWorker.ts
+
+// The worker is only registered in production builds; in development it
+// would serve stale bundles over hot reloading
+export const registerServiceWorker = () => {
+  if (
+    typeof window === "undefined" ||
+    !("serviceWorker" in navigator) ||
+    process.env.NODE_ENV !== "production"
+  ) {
+    return;
+  }
+  navigator.serviceWorker
+    .register("/sw.js")
+    .catch((error) =>
+      console.error("Service worker registration failed:", error)
+    );
+};
+
+// Ask the worker to keep pages (and their assets) for offline use
+export const cachePagesForOffline = async (urls: string[]) => {
+  if (typeof window === "undefined" || !("serviceWorker" in navigator)) return;
+  const registration = await navigator.serviceWorker.getRegistration();
+  registration?.active?.postMessage({ type: "cache-pages", urls });
+};
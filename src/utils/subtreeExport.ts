@@ -0,0 +1,364 @@
+// src/utils/subtreeExport.ts
+import { ContentType, HierarchyNode, Reference } from "@/types/buildingCode";
+import { formatNodeLabel } from "@/utils/hierarchy";
+import {
+  ReferenceCodeIndex,
+  buildProvisionPath,
+  scopedReferenceCode,
+} from "@/utils/referenceCodes";
+
+export type SubtreeExportFormat = "markdown" | "html" | "docx";
+
+export interface ExportDocumentInfo {
+  title: string;
+  year: number;
+  version?: string;
+  jurisdiction_name: string;
+}
+
+export interface ExportRun {
+  text: string;
+  // Anchor inside the export, or an absolute URL into the viewer
+  href?: string;
+  internal?: boolean;
+}
+
+export interface ExportBlock {
+  anchor: string;
+  // 1-6 for headings, 0 for body text
+  headingLevel: number;
+  // Nesting of clauses (1) and subclauses (2) under their sentence
+  indent: number;
+  code: string | null;
+  runs: ExportRun[];
+}
+
+export interface SubtreeExport {
+  label: string;
+  citation: string[];
+  blocks: ExportBlock[];
+}
+
+interface ExportContext {
+  documentId?: string;
+  info?: ExportDocumentInfo;
+  // Division-scoped codes, for links out of the subtree
+  codes: ReferenceCodeIndex;
+  // Origin for absolute links, e.g. "https://codes.example.com"
+  origin: string;
+}
+
+const HEADING_DEPTH: Partial<Record<ContentType, number>> = {
+  division: 1,
+  part: 2,
+  section: 3,
+  subsection: 4,
+  article: 5,
+};
+
+const INDENT: Partial<Record<ContentType, number>> = {
+  clause: 1,
+  subclause: 2,
+};
+
+const anchorFor = (id: number) => `p${id}`;
+
+// Clauses carry their text in the title, everything else in content_text
+const bodyText = (node: HierarchyNode) =>
+  node.content_type === "clause" ? node.title : node.content_text;
+
+// Split text into plain runs and cross-reference links, locating each
+// reference the same way the viewer does
+const toRuns = (
+  text: string,
+  references: Reference[],
+  inSubtree: Set<number>,
+  context: ExportContext
+): ExportRun[] => {
+  const runs: ExportRun[] = [];
+  const textLower = text.toLowerCase();
+  let lastIndex = 0;
+
+  [...references]
+    .sort((a, b) => a.reference_position - b.reference_position)
+    .forEach((reference) => {
+      const index = textLower.indexOf(
+        reference.reference_text.toLowerCase(),
+        lastIndex
+      );
+      if (index === -1) return;
+
+      const targetId = reference.target_content_id;
+      const targetCode =
+        (targetId && scopedReferenceCode(context.codes, targetId)) ||
+        reference.target_reference_code;
+      let href: string | undefined;
+      let internal = false;
+      if (targetId && inSubtree.has(targetId)) {
+        href = anchorFor(targetId);
+        internal = true;
+      } else if (context.documentId && targetCode) {
+        href = `${context.origin}${buildProvisionPath(
+          context.documentId,
+          targetCode
+        )}`;
+      } else if (context.documentId && targetId) {
+        href = `${context.origin}/document/${context.documentId}?highlight=${targetId}`;
+      }
+
+      if (index > lastIndex) {
+        runs.push({ text: text.substring(lastIndex, index) });
+      }
+      runs.push({
+        text: text.substring(index, index + reference.reference_text.length),
+        href,
+        internal,
+      });
+      lastIndex = index + reference.reference_text.length;
+    });
+
+  if (lastIndex < text.length) {
+    runs.push({ text: text.substring(lastIndex) });
+  }
+  return runs;
+};
+
+// Flatten a subtree into headings and indented paragraphs, with heading
+// levels relative to the exported node
+export const buildSubtreeExport = (
+  root: HierarchyNode,
+  context: ExportContext
+): SubtreeExport => {
+  const inSubtree = new Set<number>();
+  const collect = (node: HierarchyNode) => {
+    inSubtree.add(node.id);
+    node.children?.forEach(collect);
+  };
+  collect(root);
+
+  const baseDepth = HEADING_DEPTH[root.content_type] ?? 1;
+  const blocks: ExportBlock[] = [];
+
+  const walk = (node: HierarchyNode) => {
+    const depth = HEADING_DEPTH[node.content_type];
+    const references = node.references || [];
+
+    if (depth !== undefined) {
+      const headingLevel = Math.min(Math.max(depth - baseDepth + 1, 1), 6);
+      blocks.push({
+        anchor: anchorFor(node.id),
+        headingLevel,
+        indent: 0,
+        code: node.reference_code,
+        runs: [{ text: node.title || "" }],
+      });
+      if (node.content_text && node.content_text !== node.title) {
+        blocks.push({
+          anchor: "",
+          headingLevel: 0,
+          indent: 0,
+          code: null,
+          runs: toRuns(node.content_text, references, inSubtree, context),
+        });
+      }
+    } else {
+      const text = bodyText(node);
+      if (text || node.reference_code) {
+        blocks.push({
+          anchor: anchorFor(node.id),
+          headingLevel: 0,
+          indent: INDENT[node.content_type] ?? 0,
+          code: node.reference_code,
+          runs: text ? toRuns(text, references, inSubtree, context) : [],
+        });
+      }
+    }
+
+    node.children?.forEach(walk);
+  };
+  walk(root);
+
+  const { info } = context;
+  const label = formatNodeLabel(root);
+  const citation = info
+    ? [
+        info.title,
+        [
+          info.jurisdiction_name,
+          `${info.year} edition${info.version ? `, ${info.version}` : ""}`,
+        ]
+          .filter(Boolean)
+          .join(" · "),
+        `Extract: ${label}`,
+      ]
+    : [`Extract: ${label}`];
+
+  return { label, citation, blocks };
+};
+
+const escapeMarkdown = (text: string) =>
+  text.replace(/([\\`*_[\]<>#|])/g, "\\$1");
+
+const runsToMarkdown = (runs: ExportRun[]) =>
+  runs
+    .map((run) =>
+      run.href
+        ? `[${escapeMarkdown(run.text)}](${run.internal ? "#" : ""}${run.href})`
+        : escapeMarkdown(run.text)
+    )
+    .join("");
+
+export const toMarkdown = (data: SubtreeExport): string => {
+  const lines: string[] = data.citation.map((line) => `> ${line}  `);
+  lines.push("");
+
+  data.blocks.forEach((block) => {
+    const anchor = block.anchor ? `<a id="${block.anchor}"></a>` : "";
+    const code = block.code ? `${escapeMarkdown(block.code)} ` : "";
+    const text = runsToMarkdown(block.runs);
+
+    if (block.indent === 0 && lines[lines.length - 1] !== "") {
+      lines.push("");
+    }
+    if (block.headingLevel > 0) {
+      lines.push(`${"#".repeat(block.headingLevel)} ${anchor}${code}${text}`);
+    } else if (block.indent > 0) {
+      lines.push(`${"  ".repeat(block.indent - 1)}- ${anchor}${code}${text}`);
+      return;
+    } else {
+      lines.push(`${anchor}${code}${text}`);
+    }
+    lines.push("");
+  });
+
+  return (
+    lines
+      .join("\n")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim() + "\n"
+  );
+};
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const runsToHtml = (runs: ExportRun[]) =>
+  runs
+    .map((run) =>
+      run.href
+        ? `<a href="${escapeHtml(
+            run.internal ? `#${run.href}` : run.href
+          )}">${escapeHtml(run.text)}</a>`
+        : escapeHtml(run.text)
+    )
+    .join("");
+
+export const toHtml = (data: SubtreeExport): string => {
+  const body = data.blocks
+    .map((block) => {
+      const id = block.anchor ? ` id="${block.anchor}"` : "";
+      const code = block.code
+        ? `<span class="code">${escapeHtml(block.code)}</span> `
+        : "";
+      const content = `${code}${runsToHtml(block.runs)}`;
+      return block.headingLevel > 0
+        ? `<h${block.headingLevel}${id}>${content}</h${block.headingLevel}>`
+        : `<p${id} class="indent-${block.indent}">${content}</p>`;
+    })
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(data.label)}</title>
+<style>
+  body { font-family: Georgia, serif; max-width: 48rem; margin: 2rem auto; line-height: 1.5; color: #111; }
+  .citation { border-left: 4px solid #2563eb; padding-left: 1rem; color: #374151; margin-bottom: 2rem; }
+  .code { font-family: ui-monospace, monospace; color: #4b5563; }
+  .indent-1 { margin-left: 2rem; }
+  .indent-2 { margin-left: 4rem; }
+  a { color: #6b21a8; }
+</style>
+</head>
+<body>
+<div class="citation">
+${data.citation.map((line) => `<div>${escapeHtml(line)}</div>`).join("\n")}
+</div>
+${body}
+</body>
+</html>
+`;
+};
+
+// The docx library is only loaded when someone actually exports to Word
+export const toDocx = async (data: SubtreeExport): Promise<Blob> => {
+  const {
+    Bookmark,
+    Document,
+    ExternalHyperlink,
+    HeadingLevel,
+    InternalHyperlink,
+    Packer,
+    Paragraph,
+    TextRun,
+  } = await import("docx");
+
+  const headingLevels = [
+    HeadingLevel.HEADING_1,
+    HeadingLevel.HEADING_2,
+    HeadingLevel.HEADING_3,
+    HeadingLevel.HEADING_4,
+    HeadingLevel.HEADING_5,
+    HeadingLevel.HEADING_6,
+  ];
+
+  const runsToDocx = (runs: ExportRun[]) =>
+    runs.map((run) => {
+      const textRun = new TextRun(
+        run.href ? { text: run.text, style: "Hyperlink" } : run.text
+      );
+      if (!run.href) return textRun;
+      return run.internal
+        ? new InternalHyperlink({ anchor: run.href, children: [textRun] })
+        : new ExternalHyperlink({ link: run.href, children: [textRun] });
+    });
+
+  const citation = data.citation.map(
+    (line, i) =>
+      new Paragraph({
+        children: [new TextRun({ text: line, bold: i === 0, italics: i > 0 })],
+      })
+  );
+
+  const paragraphs = data.blocks.map((block) => {
+    const children = [
+      ...(block.code
+        ? [new TextRun({ text: `${block.code} `, bold: !block.headingLevel })]
+        : []),
+      ...runsToDocx(block.runs),
+    ];
+    return new Paragraph({
+      heading: block.headingLevel
+        ? headingLevels[block.headingLevel - 1]
+        : undefined,
+      indent: block.indent ? { left: 720 * block.indent } : undefined,
+      children: block.anchor
+        ? [new Bookmark({ id: block.anchor, children })]
+        : children,
+    });
+  });
+
+  const document = new Document({
+    sections: [
+      {
+        children: [...citation, new Paragraph({ text: "" }), ...paragraphs],
+      },
+    ],
+  });
+  return Packer.toBlob(document);
+};
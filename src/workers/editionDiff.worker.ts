@@ -0,0 +1,22 @@
+// src/workers/editionDiff.worker.ts
+import { HierarchyNode } from "@/types/buildingCode";
+import { EditionDiff, compareEditions } from "@/utils/editionDiff";
+
+export type EditionDiffWorkerRequest = {
+  base: HierarchyNode[];
+  target: HierarchyNode[];
+};
+
+export type EditionDiffWorkerResponse =
+  | { type: "progress"; fraction: number }
+  | { type: "result"; diff: EditionDiff };
+
+self.onmessage = (event: MessageEvent<EditionDiffWorkerRequest>) => {
+  const { base, target } = event.data;
+  const diff = compareEditions(base, target, (fraction) => {
+    const progress: EditionDiffWorkerResponse = { type: "progress", fraction };
+    self.postMessage(progress);
+  });
+  const result: EditionDiffWorkerResponse = { type: "result", diff };
+  self.postMessage(result);
+};
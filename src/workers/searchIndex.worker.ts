@@ -0,0 +1,35 @@
+// src/workers/searchIndex.worker.ts
+import {
+  IndexedDocument,
+  SearchHit,
+  SearchIndex,
+  buildSearchIndex,
+  searchDocuments,
+} from "@/utils/searchIndex";
+
+export type SearchWorkerRequest =
+  | { type: "build"; documents: IndexedDocument[] }
+  | { type: "search"; id: number; query: string };
+
+export type SearchWorkerResponse = {
+  type: "results";
+  id: number;
+  hits: SearchHit[];
+};
+
+let index: SearchIndex | null = null;
+
+// Messages are handled in order, so searches sent after a build see its index
+self.onmessage = (event: MessageEvent<SearchWorkerRequest>) => {
+  const message = event.data;
+  if (message.type === "build") {
+    index = buildSearchIndex(message.documents);
+  } else {
+    const response: SearchWorkerResponse = {
+      type: "results",
+      id: message.id,
+      hits: index ? searchDocuments(index, message.query) : [],
+    };
+    self.postMessage(response);
+  }
+};